@@ -2,6 +2,7 @@
 import React, { useState, useEffect } from 'react';
 import { AnimatorDashboard } from './components/AnimatorDashboard';
 import { ApiKeyModal } from './components/ApiKeyModal';
+import { getProvider } from './services/generationService';
 
 const App: React.FC = () => {
   const [apiKeySelected, setApiKeySelected] = useState<boolean | null>(null);
@@ -11,7 +12,10 @@ const App: React.FC = () => {
   }, []);
 
   const checkApiKey = async () => {
-    if (window.aistudio) {
+    if (!getProvider().requiresApiKey) {
+      // The offline mock backend never calls the API
+      setApiKeySelected(true);
+    } else if (window.aistudio) {
       const hasKey = await window.aistudio.hasSelectedApiKey();
       setApiKeySelected(hasKey);
     } else {
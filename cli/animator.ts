@@ -0,0 +1,248 @@
+
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { ADVANCED_ATMOSPHERE, ADVANCED_CAM_ANGLES, ADVANCED_MOTION, DEFAULT_SCENE_SETTINGS, MAX_SEED, PRESETS, PROMPT_PHRASEBOOKS } from '../constants';
+import { estimateRenderDuration } from '../services/durationStats';
+import { classifyError, ERROR_GUIDANCE } from '../services/errors';
+import { geminiProvider, VIDEO_MODEL } from '../services/geminiProvider';
+import { createMockProvider } from '../services/mockProvider';
+import { DEFAULT_TIMEOUT_MS } from '../services/polling';
+import { GenerationBackend, GenerationErrorCode, GenerationParams, GenerationProgressEvent, GenerationProvider, PromptSettings, VariableBinding } from '../types';
+import { bytesToDataUrl, fileExtensionFor, mimeTypeForImagePath } from '../utils/media';
+import { composeEnginePrompt } from '../utils/prompt';
+import { extractVariableNames, fillTemplate } from '../utils/promptTemplate';
+import { Validator } from '../utils/validation';
+import { ensureFfmpeg, FfmpegUnavailableError, synthesizeFfmpegClip } from './ffmpegClip';
+
+const USAGE = `Usage: animator render --start <image> [options]
+
+Renders one clip and writes it with a metadata JSON next to it.
+
+Options:
+  --start <path>          Starting frame (required)
+  --end <path>            Target frame
+  --preset <id>           ${PRESETS.map(p => p.id).join(' | ')} (default: ${DEFAULT_SCENE_SETTINGS.activePreset})
+  --prompt <text>         Creative prompt, replacing the preset's
+  --var <name=value>      Value for a {{name}} prompt variable (repeatable)
+  --negative <text>       Content the model should avoid
+  --seed <n>              Seed for backends that accept one; recorded only when sent (default: random)
+  --angle <id>            ${ADVANCED_CAM_ANGLES.map(a => a.id).join(' | ')}
+  --motion <id>           ${ADVANCED_MOTION.map(m => m.id).join(' | ')}
+  --atmosphere <ids>      Comma-separated: ${ADVANCED_ATMOSPHERE.map(a => a.id).join(', ')}
+  --speed <n>             Animation speed, 0.5 to 2 (default: 1)
+  --phrasebook <id>       Prompt wording: ${PROMPT_PHRASEBOOKS.map(p => p.id).join(' | ')} (default: standard)
+  --motion-blur           Ask for cinematic motion blur
+  --no-stabilization      Drop the stabilization instruction
+  --ratio <ratio>         16:9 | 9:16 (default: 16:9)
+  --resolution <res>      720p | 1080p (default: 720p)
+  --out <path>            Output video (default: <start>-<preset>.mp4)
+  --timeout <minutes>     Give up after this long (default: ${DEFAULT_TIMEOUT_MS / 60000})
+  --backend <id>          gemini | mock (default: $GENERATION_BACKEND or gemini)
+  --dry-run               Print the composed prompt and parameters without rendering
+  -h, --help              Show this help
+
+The gemini backend reads GEMINI_API_KEY from the environment or .env.local.
+The mock backend runs offline and draws its placeholder clip with ffmpeg.`;
+
+// ERROR_GUIDANCE is written for the dashboard; these replace the advice that only makes sense there
+const CLI_GUIDANCE: Partial<Record<GenerationErrorCode, string>> = {
+  'auth': 'GEMINI_API_KEY was rejected or its project cannot access Veo. Use a key from a paid Google Cloud project.',
+  'quota': 'The project is out of quota or sending requests too quickly. Wait a minute, or check your quota in Google Cloud.',
+  'network': 'The service could not be reached. Check your connection and run the command again.',
+  'cancelled': 'The render was interrupted. Any time already spent server-side may still be billed.',
+  'timeout': 'The render did not finish in time. Raise --timeout or try again later.',
+  'unknown': 'An unexpected error occurred. Run the command again; if it keeps failing, the message above has the details.',
+};
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const PROVIDERS: Record<GenerationBackend, () => GenerationProvider> = {
+  gemini: () => geminiProvider,
+  mock: () => createMockProvider(synthesizeFfmpegClip),
+};
+
+const readFrame = async (file: string) => {
+  try {
+    return bytesToDataUrl(new Uint8Array(await readFile(file)), mimeTypeForImagePath(file));
+  } catch (err) {
+    throw new UsageError(`Could not read ${file} (${(err as Error).message}).`);
+  }
+};
+
+const parseVariables = (pairs: string[]): VariableBinding => Object.fromEntries(pairs.map(pair => {
+  const at = pair.indexOf('=');
+  if (at <= 0) throw new UsageError(`--var expects name=value, got "${pair}".`);
+  return [pair.slice(0, at).trim(), pair.slice(at + 1)];
+}));
+
+const formatElapsed = (ms: number) => `${Math.floor(ms / 60000)}m${String(Math.floor(ms / 1000) % 60).padStart(2, '0')}s`;
+
+const reportProgress = (event: GenerationProgressEvent) => {
+  const retry = event.retry ? ` (retry ${event.retry.count}/${event.retry.max}: ${event.retry.errorCode})` : '';
+  const line = `[${event.stage}] ${event.progress}% • ${formatElapsed(event.elapsedMs)}${retry}`;
+  if (process.stderr.isTTY) process.stderr.write(`\r\x1b[K${line}`);
+  else if (event.stage !== 'polling') process.stderr.write(`${line}\n`);
+};
+
+const render = async (args: string[]) => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      start: { type: 'string' },
+      end: { type: 'string' },
+      preset: { type: 'string', default: DEFAULT_SCENE_SETTINGS.activePreset },
+      prompt: { type: 'string' },
+      var: { type: 'string', multiple: true, default: [] },
+      negative: { type: 'string' },
+      seed: { type: 'string' },
+      angle: { type: 'string' },
+      motion: { type: 'string' },
+      atmosphere: { type: 'string' },
+      speed: { type: 'string', default: String(DEFAULT_SCENE_SETTINGS.speed) },
+      phrasebook: { type: 'string', default: DEFAULT_SCENE_SETTINGS.phrasebook },
+      'motion-blur': { type: 'boolean', default: false },
+      'no-stabilization': { type: 'boolean', default: false },
+      ratio: { type: 'string', default: DEFAULT_SCENE_SETTINGS.aspectRatio },
+      resolution: { type: 'string', default: DEFAULT_SCENE_SETTINGS.resolution },
+      out: { type: 'string' },
+      timeout: { type: 'string', default: String(DEFAULT_TIMEOUT_MS / 60000) },
+      backend: { type: 'string', default: process.env.GENERATION_BACKEND || 'gemini' },
+      'dry-run': { type: 'boolean', default: false },
+    }
+  });
+
+  const atmosphere = values.atmosphere ? values.atmosphere.split(',').map(a => a.trim()).filter(Boolean) : [];
+  const speed = Number(values.speed);
+  const timeoutMinutes = Number(values.timeout);
+  const seed = values.seed !== undefined ? Number(values.seed) : Math.floor(Math.random() * (MAX_SEED + 1));
+  const preset = PRESETS.find(p => p.id === values.preset);
+
+  const v = new Validator();
+  v.check(!!values.start, '--start', 'the path of the starting frame');
+  v.check(!!preset || !!values.prompt, '--preset', `one of ${PRESETS.map(p => p.id).join(', ')}, or --prompt should be given`);
+  if (values.angle) v.oneOf(values.angle, '--angle', ADVANCED_CAM_ANGLES.map(a => a.id));
+  if (values.motion) v.oneOf(values.motion, '--motion', ADVANCED_MOTION.map(m => m.id));
+  atmosphere.forEach(a => v.oneOf(a, '--atmosphere', ADVANCED_ATMOSPHERE.map(at => at.id)));
+  v.number(speed, '--speed', 0.5, 2);
+  v.check(Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED, '--seed', `a whole number between 0 and ${MAX_SEED}`);
+  v.oneOf(values.phrasebook, '--phrasebook', PROMPT_PHRASEBOOKS.map(p => p.id));
+  v.oneOf(values.ratio, '--ratio', ['16:9', '9:16']);
+  v.oneOf(values.resolution, '--resolution', ['720p', '1080p']);
+  v.number(timeoutMinutes, '--timeout', 1);
+  v.oneOf(values.backend, '--backend', Object.keys(PROVIDERS));
+  if (v.errors.length > 0) throw new UsageError(v.summary(v.errors.length));
+
+  const variables = parseVariables(values.var);
+  const prompt = fillTemplate(values.prompt ?? preset!.prompt, variables);
+  const unresolved = extractVariableNames(prompt);
+  if (unresolved.length > 0) throw new UsageError(`Missing --var values for ${unresolved.map(n => `{{${n}}}`).join(', ')}.`);
+
+  const settings: PromptSettings = {
+    prompt,
+    isAdvancedMode: !!(values.angle || values.motion || atmosphere.length > 0),
+    camAngle: values.angle ?? DEFAULT_SCENE_SETTINGS.camAngle,
+    motionType: values.motion ?? DEFAULT_SCENE_SETTINGS.motionType,
+    atmosphere,
+    speed,
+    motionBlur: values['motion-blur'],
+    stabilization: !values['no-stabilization'],
+    phrasebook: values.phrasebook
+  };
+  const params: GenerationParams = {
+    prompt: composeEnginePrompt(settings),
+    startImage: await readFrame(values.start!),
+    endImage: values.end ? await readFrame(values.end) : undefined,
+    aspectRatio: values.ratio as GenerationParams['aspectRatio'],
+    resolution: values.resolution as GenerationParams['resolution'],
+    negativePrompt: values.negative?.trim() || undefined,
+    seed
+  };
+
+  if (values['dry-run']) {
+    console.log(JSON.stringify({ prompt: params.prompt, negativePrompt: params.negativePrompt ?? null, seed, aspectRatio: params.aspectRatio, resolution: params.resolution, start: values.start, end: values.end ?? null }, null, 2));
+    return;
+  }
+
+  const backend = values.backend as GenerationBackend;
+  if (backend === 'gemini') {
+    // Assigning undefined to process.env would store the string "undefined"
+    const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
+    if (!apiKey) throw new UsageError("Set GEMINI_API_KEY to render with Veo, or pass --backend mock to render offline.");
+    process.env.API_KEY = apiKey;
+  } else {
+    await ensureFfmpeg();
+  }
+  const provider = PROVIDERS[backend]();
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+  const startedAt = Date.now();
+  const result = await provider.generateVideo(params, {
+    signal: controller.signal,
+    timeoutMs: timeoutMinutes * 60000,
+    startedAt,
+    estimatedDurationMs: estimateRenderDuration(provider.id, params.resolution),
+    onProgress: reportProgress
+  });
+  if (process.stderr.isTTY) process.stderr.write('\n');
+
+  const out = path.resolve(values.out ?? `${path.parse(values.start!).name}-${preset && !values.prompt ? preset.id : 'custom'}.${fileExtensionFor(result.mimeType)}`);
+  const metadataPath = path.join(path.dirname(out), `${path.parse(out).name}.json`);
+  await writeFile(out, new Uint8Array(await result.blob.arrayBuffer()));
+  await writeFile(metadataPath, JSON.stringify({
+    format: 'gemini-animator-render',
+    createdAt: new Date().toISOString(),
+    backend,
+    model: backend === 'gemini' ? VIDEO_MODEL : null,
+    operationName: result.operationName ?? null,
+    elapsedMs: Date.now() - startedAt,
+    video: path.basename(out),
+    mimeType: result.mimeType,
+    start: values.start,
+    end: values.end ?? null,
+    preset: values.prompt ? null : preset?.id ?? null,
+    variables,
+    settings,
+    params: { prompt: params.prompt, negativePrompt: params.negativePrompt ?? null, seed: provider.supportsSeed ? seed : null, aspectRatio: params.aspectRatio, resolution: params.resolution }
+  }, null, 2));
+
+  console.log(out);
+  console.log(metadataPath);
+};
+
+const main = async () => {
+  const [command, ...args] = process.argv.slice(2);
+  if (!command || command === '-h' || command === '--help' || args.includes('-h') || args.includes('--help')) {
+    console.log(USAGE);
+    return;
+  }
+  if (command !== 'render') throw new UsageError(`Unknown command "${command}".`);
+
+  try {
+    process.loadEnvFile('.env.local');
+  } catch {
+    // The key can also come from the environment
+  }
+  await render(args);
+};
+
+main().catch((err) => {
+  if (process.stderr.isTTY) process.stderr.write('\n');
+  if (err instanceof UsageError || (err as any)?.code?.startsWith?.('ERR_PARSE_ARGS')) {
+    console.error(`${err.message}\n\n${USAGE}`);
+    process.exit(2);
+  }
+  if (err instanceof FfmpegUnavailableError) {
+    console.error(err.message);
+    process.exit(1);
+  }
+  const error = classifyError(err);
+  console.error(`${ERROR_GUIDANCE[error.code].title}: ${error.message}\n${CLI_GUIDANCE[error.code] ?? ERROR_GUIDANCE[error.code].guidance}`);
+  process.exit(1);
+});
@@ -0,0 +1,70 @@
+
+import { spawn } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { GenerationError } from '../services/errors';
+import { MOCK_CLIP_DURATION_MS, MOCK_CLIP_FPS, MOCK_PUSH_IN_ZOOM } from '../services/mockProvider';
+import { ClipSynthesizer } from '../types';
+import { dataUrlToBytes, getFrameSize, imageExtensionFor } from '../utils/media';
+
+export class FfmpegUnavailableError extends Error {
+  constructor() {
+    super("The mock backend needs ffmpeg on your PATH to draw clips outside the browser. Install ffmpeg, or render with --backend gemini.");
+    this.name = 'FfmpegUnavailableError';
+  }
+}
+
+const runFfmpeg = (args: string[], signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const child = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'], signal });
+  let stderr = '';
+  child.stderr.on('data', (chunk) => { stderr = (stderr + chunk).slice(-2000); });
+  child.on('error', (err: NodeJS.ErrnoException) => {
+    if (err.name === 'AbortError') reject(new GenerationError('cancelled', "The render was cancelled."));
+    else if (err.code === 'ENOENT') reject(new FfmpegUnavailableError());
+    else reject(err);
+  });
+  child.on('close', (code) => {
+    if (code === 0) resolve();
+    else if (!signal?.aborted) reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim().split('\n').pop()}`));
+  });
+});
+
+/** Fails fast with FfmpegUnavailableError, before the mock spends time pretending to poll. */
+export const ensureFfmpeg = () => runFfmpeg(['-version']);
+
+/**
+ * Draws the same stand-in clip as the browser mock, a crossfade between the frames
+ * or a slow push-in on a single frame, by shelling out to ffmpeg.
+ */
+export const synthesizeFfmpegClip: ClipSynthesizer = async (params, signal) => {
+  const [width, height] = getFrameSize(params.aspectRatio, params.resolution);
+  const seconds = MOCK_CLIP_DURATION_MS / 1000;
+  const frames = Math.round(seconds * MOCK_CLIP_FPS);
+  const cover = `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},setsar=1`;
+  const dir = await mkdtemp(path.join(tmpdir(), 'animator-mock-'));
+
+  try {
+    const writeFrame = async (image: string, name: string) => {
+      const { bytes, mimeType } = dataUrlToBytes(image);
+      const file = path.join(dir, `${name}.${imageExtensionFor(mimeType)}`);
+      await writeFile(file, bytes);
+      return file;
+    };
+    const start = await writeFrame(params.startImage!, 'start');
+    const output = path.join(dir, 'clip.mp4');
+
+    const inputs = params.endImage
+      ? ['-loop', '1', '-framerate', `${MOCK_CLIP_FPS}`, '-t', `${seconds}`, '-i', start,
+         '-loop', '1', '-framerate', `${MOCK_CLIP_FPS}`, '-t', `${seconds}`, '-i', await writeFrame(params.endImage, 'end')]
+      : ['-i', start];
+    const filter = params.endImage
+      ? `[0:v]${cover}[a];[1:v]${cover}[b];[a][b]xfade=transition=fade:duration=${seconds}:offset=0,format=yuv420p[v]`
+      : `[0:v]${cover},zoompan=z='1+${MOCK_PUSH_IN_ZOOM}*on/${frames}':x='iw/2-iw/zoom/2':y='ih/2-ih/zoom/2':d=${frames}:s=${width}x${height}:fps=${MOCK_CLIP_FPS},format=yuv420p[v]`;
+
+    await runFfmpeg(['-y', '-loglevel', 'error', ...inputs, '-filter_complex', filter, '-map', '[v]', '-c:v', 'libx264', '-movflags', '+faststart', output], signal);
+    return new Blob([await readFile(output)], { type: 'video/mp4' });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+};
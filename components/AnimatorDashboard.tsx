@@ -1,167 +1,161 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { AspectRatio, GenerationState, Resolution } from '../types';
+import { ADVANCED_ATMOSPHERE, ADVANCED_CAM_ANGLES, ADVANCED_MOTION, DEFAULT_AUDIO_TIMELINE, DEFAULT_EDITOR_PARAMS, DEFAULT_SCENE_SETTINGS, MAX_SEED, PRESETS, TIMEOUT_OPTIONS } from '../constants';
+import { useAudioLibrary } from '../hooks/useAudioLibrary';
+import { useCustomPresets } from '../hooks/useCustomPresets';
+import { useRenderHistory } from '../hooks/useRenderHistory';
+import { useRenderQueue } from '../hooks/useRenderQueue';
+import { useSoundtrackPreview } from '../hooks/useSoundtrackPreview';
+import { useTrackTempo } from '../hooks/useTrackTempo';
+import { hasSoundtrack, resolveSoundtrack } from '../services/audioEngine';
+import { beatsOnTimeline, speedForTempo } from '../services/beatDetection';
+import { classifyError, ERROR_GUIDANCE, GenerationError } from '../services/errors';
+import { analyzeFrames, getProvider } from '../services/generationService';
+import { createProjectFile, exportProjectJson, exportProjectZip, importProjectFile, loadAutosave, saveAutosave } from '../services/projectFile';
+import { AspectRatio, AudioTimeline, CustomPreset, FrameEdit, GenerationParams, GenerationState, MatchCurves, ProjectFile, PromptVariable, RenderHistoryEntry, Resolution, SceneSettings, StoryboardKeyframe, VariableBinding } from '../types';
+import { applyMatchCurves } from '../utils/colorGrade';
+import { renderFrameEdit } from '../utils/frameRender';
+import { buildEnginePrompt, composeEnginePrompt } from '../utils/prompt';
+import { defaultBinding, fillTemplate, pinBinding, syncVariables } from '../utils/promptTemplate';
+import { AudioLibraryPicker } from './AudioLibraryPicker';
+import { AudioTimelineEditor } from './AudioTimelineEditor';
+import { BatchRenderPanel } from './BatchRenderPanel';
+import { EnginePromptPreview } from './EnginePromptPreview';
+import { GenerationProgress } from './GenerationProgress';
 import { ImageEditor } from './ImageEditor';
-
-const LOADING_MESSAGES = [
-  "Analyzing your frames...",
-  "Synthesizing background textures...",
-  "Applying temporal coherence...",
-  "Gemini is dreaming up your video...",
-  "Optimizing cinematic motion...",
-  "Finalizing rendering pass...",
-];
-
-const PRESETS = [
-  {
-    id: 'cinematic',
-    name: 'Cinematic Slow Motion',
-    icon: '🎬',
-    prompt: 'A cinematic slow-motion sweep of the background. Elegant soft lighting, shallow depth of field, and a high-end film stock look. The camera moves slowly and smoothly.',
-  },
-  {
-    id: 'tech',
-    name: 'Tech Workspace',
-    icon: '💻',
-    prompt: 'A futuristic coding workspace background with holographic VS Code, Python, and Google Gemini logos floating. Subtle neon flickers, tech-noir aesthetic, and clean data visualizations.',
-  },
-  {
-    id: 'brand',
-    name: 'Brand Orbit',
-    icon: '✨',
-    prompt: 'Soft studio lighting with YouTube and Google AI Studio logos orbiting gracefully in the background. Smooth circular motion, professional brand showcase feel, clean minimalist style.',
-  },
-  {
-    id: 'dreamy',
-    name: 'Dreamy Transition',
-    icon: '☁️',
-    prompt: 'An ethereal, dreamy animation. Soft glowing particles, pastel color palette, and a slow, smooth transition between background elements with light leaks.',
-  },
-  {
-    id: 'action',
-    name: 'Action Pulse',
-    icon: '⚡',
-    prompt: 'Fast-paced dynamic camera zoom and energetic light streaks in the background. High contrast, vibrant colors, and an intense action movie energy.',
-  }
-];
-
-const BG_MUSIC_LIBRARY = [
-  { id: 'none', name: 'None', icon: '🔇', url: '' },
-  { id: 'tech', name: 'Digital Nexus', icon: '🛰️', url: 'https://actions.google.dev/sounds/v1/science_fiction/glitchy_digital_interface.ogg' },
-  { id: 'space', name: 'Deep Space', icon: '🌌', url: 'https://actions.google.dev/sounds/v1/science_fiction/ambient_space_ship_hum.ogg' },
-  { id: 'city', name: 'Cyber City', icon: '🏙️', url: 'https://actions.google.dev/sounds/v1/ambiences/city_street_ambience.ogg' },
-  { id: 'nature', name: 'Windy Peak', icon: '🏔️', url: 'https://actions.google.dev/sounds/v1/weather/wind_gusting_through_trees.ogg' },
-];
-
-const SFX_LIBRARY = [
-  { id: 'none', name: 'None', icon: '🔇', url: '' },
-  { id: 'glitch', name: 'Glitch Step', icon: '📟', url: 'https://actions.google.dev/sounds/v1/science_fiction/digital_glitch_long.ogg' },
-  { id: 'whoosh', name: 'Deep Whoosh', icon: '💨', url: 'https://actions.google.dev/sounds/v1/foley/whoosh_impact.ogg' },
-  { id: 'pulse', name: 'Energy Pulse', icon: '🔋', url: 'https://actions.google.dev/sounds/v1/science_fiction/force_field_pulse.ogg' },
-  { id: 'chime', name: 'Tech Chime', icon: '🔔', url: 'https://actions.google.dev/sounds/v1/science_fiction/digital_chime.ogg' },
-];
-
-const ADVANCED_CAM_ANGLES = [
-  { id: 'wide', name: 'Wide Angle', icon: '↔️', keyword: 'captured from a sprawling wide-angle perspective' },
-  { id: 'closeup', name: 'Close Up', icon: '🔍', keyword: 'framed in an intimate close-up shot with extreme detail' },
-  { id: 'birdseye', name: 'Bird\'s Eye', icon: '🦅', keyword: 'from a high-altitude bird\'s eye view looking straight down' },
-  { id: 'lowangle', name: 'Low Angle', icon: '📐', keyword: 'filmed from a dramatic low-angle perspective looking upward' },
-  { id: 'pov', name: 'POV', icon: '👁️', keyword: 'from a first-person point-of-view perspective' },
-];
-
-const ADVANCED_MOTION = [
-  { id: 'pan', name: 'Smooth Pan', desc: 'Horizontal tracking' },
-  { id: 'tilt', name: 'Vertical Tilt', desc: 'Up/Down sweep' },
-  { id: 'zoomin', name: 'Zoom In', desc: 'Slow magnification' },
-  { id: 'zoomout', name: 'Zoom Out', desc: 'Revealing pull-back' },
-  { id: 'orbit', name: '360 Orbit', desc: 'Circular rotation' },
-  { id: 'dolly', name: 'Dolly Push', desc: 'Forward movement' },
-];
-
-const ADVANCED_ATMOSPHERE = [
-  { id: 'volumetric', name: 'Volumetric', desc: 'God rays and dust' },
-  { id: 'neon', name: 'Neon Glow', desc: 'Cyberpunk vibrancy' },
-  { id: 'fog', name: 'Ethereal Fog', desc: 'Mist and mystery' },
-  { id: 'rain', name: 'Heavy Rain', desc: 'Dramatic downpour' },
-  { id: 'golden', name: 'Golden Hour', desc: 'Sunset warmth' },
-  { id: 'monochrome', name: 'Film Noir', desc: 'High contrast B&W' },
-];
+import { MixdownButton } from './MixdownButton';
+import { PresetBar } from './PresetBar';
+import { PromptVariablesPanel } from './PromptVariablesPanel';
+import { ProjectMenu } from './ProjectMenu';
+import { RenderHistoryPanel } from './RenderHistoryPanel';
+import { RenderQueuePanel } from './RenderQueuePanel';
+import { SequenceExportPanel } from './SequenceExportPanel';
+import { StoryboardPanel } from './StoryboardPanel';
 
 interface AnimatorDashboardProps {
   onResetKey: () => void;
 }
 
+// Beat grid horizon for sequence export; storyboards run far shorter than this
+const MAX_SEQUENCE_SECONDS = 600;
+const AUTOSAVE_DELAY_MS = 1000;
+
+const randomSeed = () => Math.floor(Math.random() * (MAX_SEED + 1));
+
 export const AnimatorDashboard: React.FC<AnimatorDashboardProps> = ({ onResetKey }) => {
-  const [startImage, setStartImage] = useState<string | null>(null);
-  const [endImage, setEndImage] = useState<string | null>(null);
+  const [startImage, setStartImage] = useState<string | null>(DEFAULT_SCENE_SETTINGS.startImage);
+  const [endImage, setEndImage] = useState<string | null>(DEFAULT_SCENE_SETTINGS.endImage);
+  const [startImageEdit, setStartImageEdit] = useState<FrameEdit | null>(DEFAULT_SCENE_SETTINGS.startImageEdit);
+  const [endImageEdit, setEndImageEdit] = useState<FrameEdit | null>(DEFAULT_SCENE_SETTINGS.endImageEdit);
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
-  const [prompt, setPrompt] = useState(PRESETS[1].prompt);
-  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
-  const [resolution, setResolution] = useState<Resolution>('720p');
-  const [activePreset, setActivePreset] = useState<string>(PRESETS[1].id);
-  const [motionBlur, setMotionBlur] = useState<boolean>(false);
-  const [stabilization, setStabilization] = useState<boolean>(true);
-  const [speed, setSpeed] = useState<number>(1.0);
+  const [prompt, setPrompt] = useState(DEFAULT_SCENE_SETTINGS.prompt);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(DEFAULT_SCENE_SETTINGS.aspectRatio);
+  const [resolution, setResolution] = useState<Resolution>(DEFAULT_SCENE_SETTINGS.resolution);
+  const [activePreset, setActivePreset] = useState<string>(DEFAULT_SCENE_SETTINGS.activePreset);
+  const [motionBlur, setMotionBlur] = useState<boolean>(DEFAULT_SCENE_SETTINGS.motionBlur);
+  const [stabilization, setStabilization] = useState<boolean>(DEFAULT_SCENE_SETTINGS.stabilization);
+  const [speed, setSpeed] = useState<number>(DEFAULT_SCENE_SETTINGS.speed);
   
   // Audio State
-  const [selectedBgMusicId, setSelectedBgMusicId] = useState<string>('none');
-  const [selectedSfxId, setSelectedSfxId] = useState<string>('none');
-  const [bgMusicVolume, setBgMusicVolume] = useState<number>(0.5);
-  const [sfxVolume, setSfxVolume] = useState<number>(0.5);
+  const [selectedBgMusicId, setSelectedBgMusicId] = useState<string>(DEFAULT_SCENE_SETTINGS.selectedBgMusicId);
+  const [selectedSfxId, setSelectedSfxId] = useState<string>(DEFAULT_SCENE_SETTINGS.selectedSfxId);
+  const [bgMusicVolume, setBgMusicVolume] = useState<number>(DEFAULT_SCENE_SETTINGS.bgMusicVolume);
+  const [sfxVolume, setSfxVolume] = useState<number>(DEFAULT_SCENE_SETTINGS.sfxVolume);
+  const [audioTimeline, setAudioTimeline] = useState<AudioTimeline>(DEFAULT_AUDIO_TIMELINE);
+  const [negativePrompt, setNegativePrompt] = useState<string>(DEFAULT_SCENE_SETTINGS.negativePrompt);
+  const [seed, setSeed] = useState<number | null>(DEFAULT_SCENE_SETTINGS.seed);
+  const [seedLocked, setSeedLocked] = useState<boolean>(DEFAULT_SCENE_SETTINGS.seedLocked);
+  const provider = getProvider();
+  const supportsSeed = provider.supportsSeed;
+  const [phrasebook, setPhrasebook] = useState<string>(DEFAULT_SCENE_SETTINGS.phrasebook);
+  const [promptVariables, setPromptVariables] = useState<PromptVariable[]>(DEFAULT_SCENE_SETTINGS.promptVariables);
+  const [tempoHint, setTempoHint] = useState<boolean>(DEFAULT_SCENE_SETTINGS.tempoHint);
   
   // Advanced State
-  const [isAdvancedMode, setIsAdvancedMode] = useState(false);
-  const [camAngle, setCamAngle] = useState('wide');
-  const [motionType, setMotionType] = useState('pan');
-  const [atmosphere, setAtmosphere] = useState<string[]>([]);
+  const [isAdvancedMode, setIsAdvancedMode] = useState(DEFAULT_SCENE_SETTINGS.isAdvancedMode);
+  const [camAngle, setCamAngle] = useState(DEFAULT_SCENE_SETTINGS.camAngle);
+  const [motionType, setMotionType] = useState(DEFAULT_SCENE_SETTINGS.motionType);
+  const [atmosphere, setAtmosphere] = useState<string[]>(DEFAULT_SCENE_SETTINGS.atmosphere);
+
+  // Project State
+  const [projectName, setProjectName] = useState('Untitled Project');
+  const [autosavedAt, setAutosavedAt] = useState<number | null>(null);
+  const [autosaveDroppedFrames, setAutosaveDroppedFrames] = useState(false);
+
+  // Storyboard State
+  const [isStoryboardMode, setIsStoryboardMode] = useState(false);
+  const [storyboard, setStoryboard] = useState<StoryboardKeyframe[]>([]);
+  const [activeSequenceId, setActiveSequenceId] = useState<string | null>(null);
 
   // AI Suggestion State
   const [isSuggesting, setIsSuggesting] = useState(false);
   const [directorVision, setDirectorVision] = useState<string | null>(null);
+  const [analysisError, setAnalysisError] = useState<GenerationError | null>(null);
+
+  // Render Queue & History State
+  const history = useRenderHistory();
+  const audioLibrary = useAudioLibrary();
+  const customPresets = useCustomPresets();
+  const activeBgMusic = audioLibrary.catalog.music.find(a => a.id === selectedBgMusicId);
+  const tempo = useTrackTempo(activeBgMusic?.url || undefined);
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [timeoutMinutes, setTimeoutMinutes] = useState<number>(15);
+  const [focusedJobId, setFocusedJobId] = useState<string | null>(null);
+  const { jobs, enqueue, cancel, retry, remove } = useRenderQueue({
+    concurrency,
+    timeoutMs: timeoutMinutes * 60 * 1000,
+    onJobError: (_job, err) => {
+      if (err.code === 'auth') onResetKey();
+    },
+    onJobComplete: (job, result) => {
+      if (!job.settings) return;
+      history.add({
+        id: job.id,
+        createdAt: Date.now(),
+        label: job.label,
+        blob: result.blob,
+        mimeType: result.mimeType,
+        enginePrompt: job.params.prompt,
+        settings: job.settings
+      });
+    },
+    onJobsResumed: (resumed) => {
+      setFocusedJobId(prev => prev ?? resumed[resumed.length - 1].id);
+    }
+  });
 
-  const [genState, setGenState] = useState<GenerationState>({
+  const focusedJob = jobs.find(j => j.id === focusedJobId);
+  const genState: GenerationState = focusedJob ?? {
     isGenerating: false,
     status: '',
     progress: 0
-  });
+  };
 
   const fileInputRef1 = useRef<HTMLInputElement>(null);
   const fileInputRef2 = useRef<HTMLInputElement>(null);
-  const bgMusicRef = useRef<HTMLAudioElement>(null);
-  const sfxRef = useRef<HTMLAudioElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
 
-  // Sync audio with video playback
-  useEffect(() => {
-    const video = videoRef.current;
-    if (!video) return;
-
-    const syncAudio = (audio: HTMLAudioElement | null) => {
-      if (!audio || audio.src === window.location.href) return;
-      video.addEventListener('play', () => audio.play().catch(() => {}));
-      video.addEventListener('pause', () => audio.pause());
-      video.addEventListener('timeupdate', () => {
-        if (video.ended) {
-          audio.currentTime = 0;
-          audio.pause();
-        }
-      });
-    };
-
-    syncAudio(bgMusicRef.current);
-    syncAudio(sfxRef.current);
-
-    return () => {};
-  }, [genState.videoUrl, selectedBgMusicId, selectedSfxId]);
-
-  useEffect(() => {
-    if (bgMusicRef.current) bgMusicRef.current.volume = bgMusicVolume;
-  }, [bgMusicVolume]);
+  // A new image in a slot starts a fresh edit stack
+  const setFrame = (index: number, image: string | null, edit: FrameEdit | null = null) => {
+    if (index === 0) {
+      setStartImage(image);
+      setStartImageEdit(edit);
+    } else {
+      setEndImage(image);
+      setEndImageEdit(edit);
+    }
+  };
 
-  useEffect(() => {
-    if (sfxRef.current) sfxRef.current.volume = sfxVolume;
-  }, [sfxVolume]);
+  // Meeting halfway also grades the other keyframe, as an undoable curves step on top of its own edit
+  const applyCounterpartGrade = async (index: number, image: string, edit: FrameEdit | null, curves: MatchCurves) => {
+    const base: FrameEdit = edit ?? { original: image, params: DEFAULT_EDITOR_PARAMS, history: [] };
+    const next: FrameEdit = { ...base, params: applyMatchCurves(base.params, curves), history: [...base.history, base.params] };
+    try {
+      setFrame(index, await renderFrameEdit(next, aspectRatio), next);
+    } catch (err) {
+      console.warn("Could not grade the other keyframe", err);
+    }
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>, setImg: (val: string) => void) => {
     const file = e.target.files?.[0];
@@ -180,101 +174,134 @@ export const AnimatorDashboard: React.FC<AnimatorDashboardProps> = ({ onResetKey
     setDirectorVision(null);
   };
 
+  const applyCustomPreset = (preset: CustomPreset) => {
+    const { settings } = preset;
+    setPrompt(settings.prompt);
+    setIsAdvancedMode(settings.isAdvancedMode);
+    setCamAngle(settings.camAngle);
+    setMotionType(settings.motionType);
+    setAtmosphere(settings.atmosphere);
+    setSpeed(settings.speed);
+    setMotionBlur(settings.motionBlur);
+    setStabilization(settings.stabilization);
+    setActivePreset(preset.id);
+    setDirectorVision(null);
+  };
+
   const toggleAtmosphere = (id: string) => {
     setAtmosphere(prev => 
       prev.includes(id) ? prev.filter(a => a !== id) : [...prev, id]
     );
   };
 
-  const enginePrompt = useMemo(() => {
-    let final = prompt;
-    let speedInstruction = "";
-    if (speed <= 0.6) speedInstruction = " The animation should be very slow, deliberate, and serene.";
-    else if (speed >= 1.4) speedInstruction = " The animation should be fast-paced, high-energy, and dynamic.";
-
-    if (isAdvancedMode) {
-      const angleKeyword = ADVANCED_CAM_ANGLES.find(a => a.id === camAngle)?.keyword;
-      const motion = ADVANCED_MOTION.find(m => m.id === motionType)?.name;
-      const atmosphereStr = atmosphere.length > 0 
-        ? ` with ${atmosphere.map(a => ADVANCED_ATMOSPHERE.find(at => at.id === a)?.name).join(', ')} atmospheric effects`
-        : "";
-      
-      final += `. Scene ${angleKeyword}. The animation uses a ${motion} movement style${atmosphereStr}.`;
-    }
+  const activeVariables = useMemo(() => syncVariables(prompt, promptVariables), [prompt, promptVariables]);
+  const tempoBpm = tempoHint ? tempo.analysis?.bpm : undefined;
+  const builtPrompt = useMemo(
+    () => buildEnginePrompt({ prompt: fillTemplate(prompt, defaultBinding(activeVariables)), isAdvancedMode, camAngle, motionType, atmosphere, speed, motionBlur, stabilization, tempoBpm, phrasebook }),
+    [prompt, activeVariables, isAdvancedMode, camAngle, motionType, atmosphere, speed, motionBlur, stabilization, tempoBpm, phrasebook]
+  );
+  const enginePrompt = builtPrompt.prompt;
 
-    final += ` ${speedInstruction}`;
+  const updateVariable = (name: string, values: string[]) => {
+    setPromptVariables(prev => [...prev.filter(v => v.name !== name), { name, values }]);
+  };
 
-    if (motionBlur) final += " Apply realistic cinematic motion blur.";
-    if (stabilization) final += " Ensure perfectly stabilized, jitter-free camera movement.";
-    
-    return final.trim();
-  }, [prompt, isAdvancedMode, camAngle, motionType, atmosphere, speed, motionBlur, stabilization]);
+  // Memoised so the autosave below only re-arms when a setting actually changes
+  const sceneSettings = useMemo<SceneSettings>(() => ({
+    prompt, activePreset, isAdvancedMode, camAngle, motionType, atmosphere, speed, motionBlur, stabilization,
+    selectedBgMusicId, selectedSfxId, bgMusicVolume, sfxVolume, audioTimeline, tempoHint, promptVariables: activeVariables, phrasebook, negativePrompt, seed, seedLocked, aspectRatio, resolution, startImage, endImage,
+    startImageEdit, endImageEdit
+  }), [
+    prompt, activePreset, isAdvancedMode, camAngle, motionType, atmosphere, speed, motionBlur, stabilization,
+    selectedBgMusicId, selectedSfxId, bgMusicVolume, sfxVolume, audioTimeline, tempoHint, activeVariables, phrasebook, negativePrompt, seed, seedLocked, aspectRatio, resolution, startImage, endImage,
+    startImageEdit, endImageEdit
+  ]);
+  const soundtrack = resolveSoundtrack(sceneSettings, audioLibrary.catalog);
+  const soundtrackError = useSoundtrackPreview(videoRef, genState.videoUrl, soundtrack);
+
+  const applySceneSettings = (settings: SceneSettings) => {
+    setPrompt(settings.prompt);
+    setActivePreset(settings.activePreset);
+    setIsAdvancedMode(settings.isAdvancedMode);
+    setCamAngle(settings.camAngle);
+    setMotionType(settings.motionType);
+    setAtmosphere(settings.atmosphere);
+    setSpeed(settings.speed);
+    setMotionBlur(settings.motionBlur);
+    setStabilization(settings.stabilization);
+    setSelectedBgMusicId(settings.selectedBgMusicId);
+    setSelectedSfxId(settings.selectedSfxId);
+    setBgMusicVolume(settings.bgMusicVolume);
+    setSfxVolume(settings.sfxVolume);
+    setAudioTimeline(settings.audioTimeline ?? DEFAULT_AUDIO_TIMELINE);
+    setTempoHint(settings.tempoHint ?? false);
+    setPromptVariables(settings.promptVariables ?? []);
+    setPhrasebook(settings.phrasebook ?? DEFAULT_SCENE_SETTINGS.phrasebook);
+    setNegativePrompt(settings.negativePrompt ?? '');
+    setSeed(settings.seed ?? null);
+    setSeedLocked(settings.seedLocked ?? false);
+    setAspectRatio(settings.aspectRatio);
+    setResolution(settings.resolution);
+    setStartImage(settings.startImage);
+    setEndImage(settings.endImage);
+    setStartImageEdit(settings.startImageEdit ?? null);
+    setEndImageEdit(settings.endImageEdit ?? null);
+    setDirectorVision(null);
+  };
+
+  const applyProject = (project: ProjectFile) => {
+    applySceneSettings(project.scene);
+    setStoryboard(project.storyboard);
+    setIsStoryboardMode(project.isStoryboardMode);
+    setProjectName(project.name);
+  };
+
+  useEffect(() => {
+    const saved = loadAutosave();
+    if (saved) applyProject(saved);
+  }, []);
+
+  // Debounced so typing a prompt doesn't serialize the frames on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setAutosaveDroppedFrames(!saveAutosave(createProjectFile(projectName, { scene: sceneSettings, storyboard, isStoryboardMode })));
+      setAutosavedAt(Date.now());
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [sceneSettings, storyboard, isStoryboardMode, projectName]);
+
+  const saveProject = async (format: 'json' | 'zip') => {
+    const project = createProjectFile(projectName, { scene: sceneSettings, storyboard, isStoryboardMode });
+    const blob = format === 'zip' ? await exportProjectZip(project) : exportProjectJson(project);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${projectName.trim().replace(/[^\w-]+/g, '-').toLowerCase() || 'project'}.${format}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const openProject = async (file: File) => {
+    applyProject(await importProjectFile(file));
+  };
+
+  const newProject = () => {
+    applyProject(createProjectFile('Untitled Project', { scene: DEFAULT_SCENE_SETTINGS, storyboard: [], isStoryboardMode: false }));
+  };
+
+  const restoreFromHistory = (entry: RenderHistoryEntry) => {
+    applySceneSettings(entry.settings);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
 
   const suggestParameters = async () => {
     if (!startImage) return;
     setIsSuggesting(true);
     setDirectorVision(null);
+    setAnalysisError(null);
     
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const parts: any[] = [
-        {
-          inlineData: {
-            mimeType: 'image/png',
-            data: startImage.split(',')[1],
-          },
-        }
-      ];
-
-      if (endImage) {
-        parts.push({
-          inlineData: {
-            mimeType: 'image/png',
-            data: endImage.split(',')[1],
-          },
-        });
-      }
-
-      parts.push({ 
-        text: `You are an elite Cinematographer. Analyze the provided ${endImage ? 'two frames (start and end)' : 'frame'} and suggest optimal cinematic parameters for a video generation model. 
-        If two frames are provided, suggest how the first should morph or transition into the second.
-        
-        Return a JSON object:
-        {
-          "cameraAngle": "wide" | "closeup" | "birdseye" | "lowangle" | "pov",
-          "motionType": "pan" | "tilt" | "zoomin" | "zoomout" | "orbit" | "dolly",
-          "atmosphere": string[], // from: volumetric, neon, fog, rain, golden, monochrome
-          "prompt": string, // detailed creative prompt
-          "directorVision": string, // a 1-2 sentence explanation of the creative choice
-          "suggestedAudio": string, // one of: tech, space, city, nature
-          "suggestedSfx": string, // one of: glitch, whoosh, pulse, chime
-          "speed": number // between 0.5 and 2.0
-        }` 
-      });
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: [{ parts }],
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              cameraAngle: { type: Type.STRING },
-              motionType: { type: Type.STRING },
-              atmosphere: { type: Type.ARRAY, items: { type: Type.STRING } },
-              prompt: { type: Type.STRING },
-              directorVision: { type: Type.STRING },
-              suggestedAudio: { type: Type.STRING },
-              suggestedSfx: { type: Type.STRING },
-              speed: { type: Type.NUMBER }
-            },
-            required: ["cameraAngle", "motionType", "atmosphere", "prompt", "directorVision"]
-          }
-        }
-      });
-
-      const res = JSON.parse(response.text || '{}');
+      const res = await analyzeFrames(startImage, endImage, audioLibrary.catalog);
       
       setIsAdvancedMode(true);
       if (res.cameraAngle) setCamAngle(res.cameraAngle);
@@ -282,112 +309,142 @@ export const AnimatorDashboard: React.FC<AnimatorDashboardProps> = ({ onResetKey
       if (res.atmosphere) setAtmosphere(res.atmosphere);
       if (res.prompt) setPrompt(res.prompt);
       if (res.directorVision) setDirectorVision(res.directorVision);
-      if (res.suggestedAudio) setSelectedBgMusicId(res.suggestedAudio);
-      if (res.suggestedSfx) setSelectedSfxId(res.suggestedSfx);
+      if (res.suggestedAudio && audioLibrary.catalog.music.some(a => a.id === res.suggestedAudio)) setSelectedBgMusicId(res.suggestedAudio);
+      if (res.suggestedSfx && audioLibrary.catalog.sfx.some(a => a.id === res.suggestedSfx)) setSelectedSfxId(res.suggestedSfx);
       if (res.speed) setSpeed(res.speed);
 
       setActivePreset('custom');
 
     } catch (err) {
       console.error("AI Analysis failed", err);
+      const error = classifyError(err);
+      setAnalysisError(error);
+      if (error.code === 'auth') onResetKey();
     } finally {
       setIsSuggesting(false);
     }
   };
 
-  const generateVideo = async () => {
+  /**
+   * The seed for the next job: the locked one, or a fresh draw that is shown in the seed field.
+   * Backends that ignore seeds get none, so no seed is recorded for their takes.
+   */
+  const takeSeed = () => {
+    if (!supportsSeed) return undefined;
+    const next = seedLocked && seed !== null ? seed : randomSeed();
+    setSeed(next);
+    return next;
+  };
+
+  const outputOptions = (jobSeed?: number) => ({ negativePrompt: negativePrompt.trim() || undefined, seed: jobSeed });
+
+  // Each job's settings record its seed as locked, so re-opening a take reuses it
+  const seedSettings = (jobSeed?: number) => jobSeed === undefined ? { seed: null, seedLocked: false } : { seed: jobSeed, seedLocked: true };
+
+  const generateVideo = () => {
     if (!startImage) {
       alert("Please upload at least one starting image.");
       return;
     }
 
-    setGenState({
-      isGenerating: true,
-      status: LOADING_MESSAGES[0],
-      progress: 0
-    });
+    const jobSeed = takeSeed();
+    const params: GenerationParams = {
+      prompt: enginePrompt,
+      startImage,
+      endImage: endImage ?? undefined,
+      aspectRatio,
+      resolution,
+      ...outputOptions(jobSeed)
+    };
 
-    try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const config: any = {
-        numberOfVideos: 1,
+    const label = PRESETS.find(p => p.id === activePreset)?.name ?? 'Custom Scene';
+    setFocusedJobId(enqueue(params, label, { ...sceneSettings, ...seedSettings(jobSeed) }));
+  };
+
+  const renderMatrix = (bindings: VariableBinding[]) => {
+    if (!startImage || bindings.length === 0) return;
+    const ids = bindings.map(binding => {
+      const jobSeed = takeSeed();
+      const params: GenerationParams = {
+        prompt: composeEnginePrompt({ ...sceneSettings, prompt: fillTemplate(prompt, binding), tempoBpm }),
+        startImage,
+        endImage: endImage ?? undefined,
+        aspectRatio,
         resolution,
-        aspectRatio
+        ...outputOptions(jobSeed)
       };
+      // Settings keep the template, with this variant's values first so restoring reproduces it
+      const settings: SceneSettings = { ...sceneSettings, promptVariables: pinBinding(activeVariables, binding), ...seedSettings(jobSeed) };
+      return enqueue(params, `Matrix • ${activeVariables.map(v => binding[v.name]).join(' • ')}`, settings);
+    });
+    setFocusedJobId(ids[0]);
+  };
 
-      if (endImage) {
-        config.lastFrame = {
-          imageBytes: endImage.split(',')[1],
-          mimeType: 'image/png'
-        };
-      }
-
-      let operation = await ai.models.generateVideos({
-        model: 'veo-3.1-fast-generate-preview',
-        prompt: enginePrompt,
-        image: {
-          imageBytes: startImage.split(',')[1],
-          mimeType: 'image/png'
-        },
-        config
-      });
+  const renderStoryboard = () => {
+    if (storyboard.length < 2) return;
+    const sequenceId = `seq-${Date.now().toString(36)}`;
+    const total = storyboard.length - 1;
+
+    storyboard.slice(0, -1).forEach((keyframe, index) => {
+      const jobSeed = takeSeed();
+      const shotSettings: SceneSettings = {
+        ...sceneSettings,
+        ...seedSettings(jobSeed),
+        prompt: keyframe.prompt,
+        activePreset: 'custom',
+        isAdvancedMode: true,
+        camAngle: keyframe.camAngle,
+        motionType: keyframe.motionType,
+        atmosphere: keyframe.atmosphere,
+        startImage: keyframe.image,
+        endImage: storyboard[index + 1].image,
+        startImageEdit: null,
+        endImageEdit: null
+      };
+      const params: GenerationParams = {
+        prompt: composeEnginePrompt({ ...shotSettings, tempoBpm }),
+        startImage: keyframe.image,
+        endImage: storyboard[index + 1].image,
+        aspectRatio,
+        resolution,
+        ...outputOptions(jobSeed)
+      };
+      enqueue(params, `Storyboard • Shot ${index + 1}/${total}`, shotSettings, { id: sequenceId, index, total });
+    });
 
-      let messageIndex = 0;
-      while (!operation.done) {
-        await new Promise(resolve => setTimeout(resolve, 10000));
-        messageIndex = (messageIndex + 1) % LOADING_MESSAGES.length;
-        setGenState(prev => ({
-          ...prev,
-          status: LOADING_MESSAGES[messageIndex],
-          progress: Math.min(prev.progress + 15, 95)
-        }));
-        operation = await ai.operations.getVideosOperation({ operation: operation });
-      }
-
-      const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-      if (downloadLink) {
-        const videoResponse = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-        const blob = await videoResponse.blob();
-        const videoUrl = URL.createObjectURL(blob);
-        setGenState({
-          isGenerating: false,
-          status: 'Generation complete!',
-          progress: 100,
-          videoUrl
-        });
-      }
-    } catch (err: any) {
-      console.error(err);
-      if (err.message?.includes("Requested entity was not found.")) onResetKey();
-      setGenState({
-        isGenerating: false,
-        status: 'Error',
-        progress: 0,
-        error: err.message || "An unexpected error occurred."
-      });
-    }
+    setActiveSequenceId(sequenceId);
   };
 
-  const activeBgMusic = BG_MUSIC_LIBRARY.find(a => a.id === selectedBgMusicId);
-  const activeSfx = SFX_LIBRARY.find(a => a.id === selectedSfxId);
+  // The editor always works from the unedited original of the frame
+  const editingEdit = editingIndex === 0 ? startImageEdit : endImageEdit;
+  const editingOriginal = editingEdit?.original ?? (editingIndex === 0 ? startImage : endImage);
+  const matchIndex = editingIndex === 0 ? 1 : 0;
+  const matchImage = matchIndex === 0 ? startImage : endImage;
+
+  const sequenceJobs = jobs
+    .filter(j => j.sequence && j.sequence.id === activeSequenceId)
+    .sort((a, b) => a.sequence!.index - b.sequence!.index);
 
   return (
     <div className="max-w-7xl mx-auto px-4 py-12">
-      {editingIndex !== null && (
+      {editingIndex !== null && editingOriginal && (
         <ImageEditor 
-          image={editingIndex === 0 ? startImage! : endImage!}
+          image={editingOriginal}
+          initialParams={editingEdit?.params}
+          initialHistory={editingEdit?.history}
+          initialLuts={editingEdit?.luts}
+          matchReference={matchImage ? { label: matchIndex === 0 ? 'Starting Frame' : 'Target Image', image: matchImage, edit: matchIndex === 0 ? startImageEdit : endImageEdit } : undefined}
           aspectRatio={aspectRatio}
           onCancel={() => setEditingIndex(null)}
-          onSave={(newImg) => {
-            if (editingIndex === 0) setStartImage(newImg);
-            else setEndImage(newImg);
+          onSave={(newImg, edit) => {
+            const { counterpart, ...frameEdit } = edit;
+            setFrame(editingIndex, newImg, { original: editingOriginal, ...frameEdit });
+            if (counterpart && matchImage) applyCounterpartGrade(matchIndex, matchImage, matchIndex === 0 ? startImageEdit : endImageEdit, counterpart);
             setEditingIndex(null);
           }}
         />
       )}
 
-      <audio ref={bgMusicRef} src={activeBgMusic?.url} loop className="hidden" />
-      <audio ref={sfxRef} src={activeSfx?.url} loop className="hidden" />
 
       <header className="mb-12 text-center">
         <h1 className="text-4xl md:text-6xl font-extrabold tracking-tight mb-4 bg-gradient-to-r from-blue-400 to-indigo-500 bg-clip-text text-transparent">
@@ -396,62 +453,77 @@ export const AnimatorDashboard: React.FC<AnimatorDashboardProps> = ({ onResetKey
         <p className="text-slate-400 text-lg max-w-2xl mx-auto">
           Intelligent cinematic synthesis. Let AI analyze your vision and render high-fidelity video sequences.
         </p>
+        <ProjectMenu
+          name={projectName}
+          onRename={setProjectName}
+          onSave={saveProject}
+          onOpen={openProject}
+          onNew={newProject}
+          autosavedAt={autosavedAt}
+          autosaveDroppedFrames={autosaveDroppedFrames}
+        />
+        <div className="inline-flex mt-8 p-1 bg-slate-900 rounded-full border border-white/5">
+          <button onClick={() => setIsStoryboardMode(false)} className={`px-5 py-2 rounded-full text-[10px] font-bold uppercase tracking-widest transition-all ${!isStoryboardMode ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}>Single Clip</button>
+          <button onClick={() => setIsStoryboardMode(true)} className={`px-5 py-2 rounded-full text-[10px] font-bold uppercase tracking-widest transition-all ${isStoryboardMode ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}>Storyboard</button>
+        </div>
       </header>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         <div className="lg:col-span-1 space-y-6">
-          <div className="glass-panel p-6 rounded-2xl border-white/5">
-            <h3 className="text-lg font-semibold mb-4 flex items-center gap-2 text-blue-400">
-              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-              </svg>
-              Input Frames
-            </h3>
-            <div className="space-y-4">
-              <div className="space-y-2">
-                <div className="flex justify-between items-center">
-                  <label className="text-[10px] font-bold uppercase tracking-wider text-slate-500">Starting Frame</label>
-                  {startImage && <button onClick={() => setEditingIndex(0)} className="text-[10px] text-blue-400 font-bold uppercase">Edit</button>}
-                </div>
-                <div 
-                  onClick={() => !startImage && fileInputRef1.current?.click()}
-                  className={`relative h-40 rounded-xl border-2 border-dashed border-slate-700 hover:border-blue-500/50 cursor-pointer overflow-hidden flex items-center justify-center transition-all bg-slate-800/50 shadow-inner ${startImage ? 'border-none' : ''}`}
-                >
-                  {startImage ? (
-                    <>
-                      <img src={startImage} className="w-full h-full object-cover" alt="Start" />
-                      <div className="absolute inset-0 bg-black/40 opacity-0 hover:opacity-100 transition-opacity flex items-center justify-center gap-3">
-                        <button onClick={(e) => { e.stopPropagation(); setEditingIndex(0); }} className="p-2 bg-blue-600 rounded-full text-white shadow-xl"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg></button>
-                        <button onClick={(e) => { e.stopPropagation(); setStartImage(null); }} className="p-2 bg-red-600 rounded-full text-white shadow-xl"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button>
-                      </div>
-                    </>
-                  ) : <div className="text-center p-4"><div className="text-3xl mb-2">📸</div><p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">Select Image One</p></div>}
-                  <input ref={fileInputRef1} type="file" className="hidden" accept="image/*" onChange={(e) => handleFileChange(e, setStartImage)} />
-                </div>
-              </div>
-              <div className="space-y-2">
-                <div className="flex justify-between items-center">
-                  <label className="text-[10px] font-bold uppercase tracking-wider text-slate-500">Target Image (Optional)</label>
-                  {endImage && <button onClick={() => setEditingIndex(1)} className="text-[10px] text-blue-400 font-bold uppercase">Edit</button>}
+          {!isStoryboardMode && (
+            <div className="glass-panel p-6 rounded-2xl border-white/5">
+              <h3 className="text-lg font-semibold mb-4 flex items-center gap-2 text-blue-400">
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+                Input Frames
+              </h3>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <label className="text-[10px] font-bold uppercase tracking-wider text-slate-500">Starting Frame</label>
+                    {startImage && <button onClick={() => setEditingIndex(0)} className="text-[10px] text-blue-400 font-bold uppercase">Edit</button>}
+                  </div>
+                  <div 
+                    onClick={() => !startImage && fileInputRef1.current?.click()}
+                    className={`relative h-40 rounded-xl border-2 border-dashed border-slate-700 hover:border-blue-500/50 cursor-pointer overflow-hidden flex items-center justify-center transition-all bg-slate-800/50 shadow-inner ${startImage ? 'border-none' : ''}`}
+                  >
+                    {startImage ? (
+                      <>
+                        <img src={startImage} className="w-full h-full object-cover" alt="Start" />
+                        <div className="absolute inset-0 bg-black/40 opacity-0 hover:opacity-100 transition-opacity flex items-center justify-center gap-3">
+                          <button onClick={(e) => { e.stopPropagation(); setEditingIndex(0); }} className="p-2 bg-blue-600 rounded-full text-white shadow-xl"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg></button>
+                          <button onClick={(e) => { e.stopPropagation(); setFrame(0, null); }} className="p-2 bg-red-600 rounded-full text-white shadow-xl"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button>
+                        </div>
+                      </>
+                    ) : <div className="text-center p-4"><div className="text-3xl mb-2">📸</div><p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">Select Image One</p></div>}
+                    <input ref={fileInputRef1} type="file" className="hidden" accept="image/*" onChange={(e) => handleFileChange(e, (img) => setFrame(0, img))} />
+                  </div>
                 </div>
-                <div 
-                  onClick={() => !endImage && fileInputRef2.current?.click()}
-                  className={`relative h-40 rounded-xl border-2 border-dashed border-slate-700 hover:border-blue-500/50 cursor-pointer overflow-hidden flex items-center justify-center transition-all bg-slate-800/50 shadow-inner ${endImage ? 'border-none' : ''}`}
-                >
-                  {endImage ? (
-                    <>
-                      <img src={endImage} className="w-full h-full object-cover" alt="End" />
-                      <div className="absolute inset-0 bg-black/40 opacity-0 hover:opacity-100 transition-opacity flex items-center justify-center gap-3">
-                        <button onClick={(e) => { e.stopPropagation(); setEditingIndex(1); }} className="p-2 bg-blue-600 rounded-full text-white shadow-xl"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg></button>
-                        <button onClick={(e) => { e.stopPropagation(); setEndImage(null); }} className="p-2 bg-red-600 rounded-full text-white shadow-xl"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button>
-                      </div>
-                    </>
-                  ) : <div className="text-center p-4"><div className="text-3xl mb-2">🎞️</div><p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">Keyframe Two</p></div>}
-                  <input ref={fileInputRef2} type="file" className="hidden" accept="image/*" onChange={(e) => handleFileChange(e, setEndImage)} />
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <label className="text-[10px] font-bold uppercase tracking-wider text-slate-500">Target Image (Optional)</label>
+                    {endImage && <button onClick={() => setEditingIndex(1)} className="text-[10px] text-blue-400 font-bold uppercase">Edit</button>}
+                  </div>
+                  <div 
+                    onClick={() => !endImage && fileInputRef2.current?.click()}
+                    className={`relative h-40 rounded-xl border-2 border-dashed border-slate-700 hover:border-blue-500/50 cursor-pointer overflow-hidden flex items-center justify-center transition-all bg-slate-800/50 shadow-inner ${endImage ? 'border-none' : ''}`}
+                  >
+                    {endImage ? (
+                      <>
+                        <img src={endImage} className="w-full h-full object-cover" alt="End" />
+                        <div className="absolute inset-0 bg-black/40 opacity-0 hover:opacity-100 transition-opacity flex items-center justify-center gap-3">
+                          <button onClick={(e) => { e.stopPropagation(); setEditingIndex(1); }} className="p-2 bg-blue-600 rounded-full text-white shadow-xl"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg></button>
+                          <button onClick={(e) => { e.stopPropagation(); setFrame(1, null); }} className="p-2 bg-red-600 rounded-full text-white shadow-xl"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button>
+                        </div>
+                      </>
+                    ) : <div className="text-center p-4"><div className="text-3xl mb-2">🎞️</div><p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">Keyframe Two</p></div>}
+                    <input ref={fileInputRef2} type="file" className="hidden" accept="image/*" onChange={(e) => handleFileChange(e, (img) => setFrame(1, img))} />
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
+          )}
 
           <div className="glass-panel p-6 rounded-2xl border-white/5 space-y-6 shadow-xl">
             <h3 className="text-lg font-semibold flex items-center gap-2 text-indigo-400">
@@ -467,14 +539,44 @@ export const AnimatorDashboard: React.FC<AnimatorDashboardProps> = ({ onResetKey
                   <span className="text-[10px] text-slate-400 font-mono">{Math.round(bgMusicVolume * 100)}%</span>
                 </div>
                 <input type="range" min="0" max="1" step="0.01" value={bgMusicVolume} onChange={(e) => setBgMusicVolume(parseFloat(e.target.value))} className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
-                <div className="grid grid-cols-3 gap-1.5">
-                  {BG_MUSIC_LIBRARY.map((audio) => (
-                    <button key={audio.id} onClick={() => setSelectedBgMusicId(audio.id)} className={`p-2 rounded-lg border text-center transition-all ${selectedBgMusicId === audio.id ? 'bg-indigo-600/20 border-indigo-500 text-indigo-300' : 'bg-slate-900 border-white/5 text-slate-500 hover:text-slate-300'}`}>
-                      <div className="text-sm">{audio.icon}</div>
-                      <div className="text-[8px] font-bold truncate">{audio.name}</div>
-                    </button>
-                  ))}
-                </div>
+                <AudioLibraryPicker
+                  options={audioLibrary.catalog.music}
+                  selectedId={selectedBgMusicId}
+                  onSelect={setSelectedBgMusicId}
+                  onUpload={(file) => audioLibrary.add(file, 'music')}
+                  onDelete={(id) => {
+                    audioLibrary.remove(id);
+                    if (id === selectedBgMusicId) setSelectedBgMusicId('none');
+                  }}
+                  accent="indigo"
+                />
+                {activeBgMusic?.url && (
+                  <div className="p-3 bg-slate-950/80 rounded-xl border border-white/5 space-y-2">
+                    {tempo.analysis ? (
+                      <>
+                        <div className="flex items-center justify-between">
+                          <span className="text-[10px] font-bold text-slate-300 font-mono">♩ {tempo.analysis.bpm} BPM</span>
+                          <span className="text-[9px] text-slate-500 font-mono">{Math.round(tempo.analysis.confidence * 100)}% confidence</span>
+                        </div>
+                        <div className="flex items-center justify-between gap-2">
+                          <button
+                            onClick={() => setSpeed(speedForTempo(tempo.analysis!.bpm))}
+                            disabled={speed === speedForTempo(tempo.analysis.bpm)}
+                            className="text-[9px] text-indigo-400 font-bold uppercase hover:text-indigo-300 disabled:text-slate-600"
+                          >
+                            Match Speed ({speed.toFixed(2)}x → {speedForTempo(tempo.analysis.bpm).toFixed(2)}x)
+                          </button>
+                          <label className="flex items-center gap-1.5 text-[9px] font-bold text-slate-400 uppercase cursor-pointer">
+                            <input type="checkbox" checked={tempoHint} onChange={(e) => setTempoHint(e.target.checked)} className="accent-indigo-500" />
+                            Tempo in Prompt
+                          </label>
+                        </div>
+                      </>
+                    ) : (
+                      <span className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">{tempo.isAnalyzing ? 'Detecting tempo…' : 'Tempo unavailable for this track'}</span>
+                    )}
+                  </div>
+                )}
               </div>
               <div className="space-y-3">
                 <div className="flex justify-between items-center">
@@ -482,14 +584,17 @@ export const AnimatorDashboard: React.FC<AnimatorDashboardProps> = ({ onResetKey
                   <span className="text-[10px] text-slate-400 font-mono">{Math.round(sfxVolume * 100)}%</span>
                 </div>
                 <input type="range" min="0" max="1" step="0.01" value={sfxVolume} onChange={(e) => setSfxVolume(parseFloat(e.target.value))} className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500" />
-                <div className="grid grid-cols-3 gap-1.5">
-                  {SFX_LIBRARY.map((audio) => (
-                    <button key={audio.id} onClick={() => setSelectedSfxId(audio.id)} className={`p-2 rounded-lg border text-center transition-all ${selectedSfxId === audio.id ? 'bg-blue-600/20 border-blue-500 text-blue-300' : 'bg-slate-900 border-white/5 text-slate-500 hover:text-slate-300'}`}>
-                      <div className="text-sm">{audio.icon}</div>
-                      <div className="text-[8px] font-bold truncate">{audio.name}</div>
-                    </button>
-                  ))}
-                </div>
+                <AudioLibraryPicker
+                  options={audioLibrary.catalog.sfx}
+                  selectedId={selectedSfxId}
+                  onSelect={setSelectedSfxId}
+                  onUpload={(file) => audioLibrary.add(file, 'sfx')}
+                  onDelete={(id) => {
+                    audioLibrary.remove(id);
+                    if (id === selectedSfxId) setSelectedSfxId('none');
+                  }}
+                  accent="blue"
+                />
               </div>
             </div>
           </div>
@@ -540,6 +645,68 @@ export const AnimatorDashboard: React.FC<AnimatorDashboardProps> = ({ onResetKey
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Negative Prompt</label>
+                <textarea
+                  value={negativePrompt}
+                  onChange={(e) => setNegativePrompt(e.target.value)}
+                  placeholder="Content to keep out, e.g. text overlays, watermarks, distorted hands"
+                  className="w-full h-16 bg-slate-950 border border-slate-800 rounded-lg p-2.5 text-xs text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none resize-none"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Seed</label>
+                  <span className="text-[8px] text-slate-500 uppercase font-bold">{!supportsSeed ? 'Not supported' : seedLocked ? 'Reused for every render' : 'New seed per render'}</span>
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_SEED}
+                    value={seed ?? ''}
+                    onChange={(e) => {
+                      const value = e.target.value === '' ? null : Math.min(Math.max(Math.floor(Number(e.target.value)), 0), MAX_SEED);
+                      setSeed(value);
+                      if (value !== null) setSeedLocked(true);
+                    }}
+                    placeholder="Random"
+                    disabled={!supportsSeed}
+                    className="flex-grow min-w-0 bg-slate-950 border border-slate-800 rounded-lg px-2.5 py-2 text-xs font-mono text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none disabled:opacity-40"
+                  />
+                  <button onClick={() => { setSeed(randomSeed()); setSeedLocked(true); }} disabled={!supportsSeed} title="Draw a new seed and lock it" className="px-2.5 rounded-lg border border-white/5 bg-slate-900 text-sm hover:border-white/20 disabled:opacity-40">🎲</button>
+                  <button
+                    onClick={() => setSeedLocked(!seedLocked)}
+                    disabled={!supportsSeed || seed === null}
+                    title={seedLocked ? 'Unlock: draw a new seed for each render' : 'Lock: reuse this seed for every render'}
+                    className={`px-3 rounded-lg text-[10px] font-bold uppercase border transition-all ${seedLocked ? 'bg-emerald-600 border-emerald-400 text-white' : 'bg-slate-900 border-white/5 text-slate-500 hover:text-slate-300'} disabled:opacity-40`}
+                  >
+                    {seedLocked ? '🔒 Locked' : '🔓 Lock'}
+                  </button>
+                </div>
+                <p className="text-[9px] text-slate-500">
+                  {supportsSeed
+                    ? 'Saved with each take, so a locked seed regenerates it exactly.'
+                    : `${provider.label} doesn't accept a seed, so none is sent or saved with its takes.`}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Render Timeout</label>
+                <div className="grid grid-cols-4 gap-2">
+                  {TIMEOUT_OPTIONS.map(option => (
+                    <button 
+                      key={option.minutes}
+                      onClick={() => setTimeoutMinutes(option.minutes)}
+                      className={`py-2 rounded-lg text-[10px] font-bold border transition-all ${timeoutMinutes === option.minutes ? 'bg-amber-600 border-amber-400 text-white shadow-lg shadow-amber-900/40' : 'bg-slate-900 border-white/5 text-slate-500 hover:text-slate-300'}`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               <div className="space-y-3 pt-2 border-t border-white/5">
                 <div className="flex items-center justify-between">
                   <div className="flex flex-col">
@@ -572,146 +739,232 @@ export const AnimatorDashboard: React.FC<AnimatorDashboardProps> = ({ onResetKey
         </div>
 
         <div className="lg:col-span-2 space-y-6">
-          <div className="glass-panel p-6 rounded-2xl border-white/5 shadow-2xl relative overflow-hidden">
-            <div className="absolute top-0 right-0 p-4 opacity-5 pointer-events-none">
-              <svg className="w-24 h-24" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2L4.5 20.29l.71.71L12 18l6.79 3 .71-.71z"/></svg>
-            </div>
-            
-            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
-              <h3 className="text-lg font-semibold flex items-center gap-2">
-                <svg className="w-5 h-5 text-indigo-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-                </svg>
-                Director's Suite
-              </h3>
-              <div className="flex items-center gap-3">
-                <button
-                  onClick={suggestParameters}
-                  disabled={!startImage || isSuggesting}
-                  className={`flex items-center gap-2 px-4 py-2 rounded-full text-[10px] font-bold uppercase transition-all border shadow-lg ${!startImage ? 'bg-slate-800 border-slate-700 text-slate-600 cursor-not-allowed' : isSuggesting ? 'bg-indigo-600/20 border-indigo-500 text-indigo-300 animate-pulse' : 'bg-indigo-600 hover:bg-indigo-500 border-indigo-400 text-white active:scale-95'}`}
-                >
-                  {isSuggesting ? <svg className="animate-spin h-3 w-3" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg> : <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>}
-                  AI Analysis Suggestion
-                </button>
-                <button onClick={() => setIsAdvancedMode(!isAdvancedMode)} className={`flex items-center gap-2 px-4 py-2 rounded-full text-[10px] font-bold uppercase transition-all border ${isAdvancedMode ? 'bg-blue-600 border-blue-400 text-white' : 'bg-slate-800 border-slate-700 text-slate-400'}`}>
-                  Advanced Mode
-                </button>
+          {isStoryboardMode ? (
+            <StoryboardPanel
+              keyframes={storyboard}
+              onChange={setStoryboard}
+              defaultPrompt={prompt}
+              sequenceJobs={sequenceJobs}
+              onRender={renderStoryboard}
+            />
+          ) : (
+            <div className="glass-panel p-6 rounded-2xl border-white/5 shadow-2xl relative overflow-hidden">
+              <div className="absolute top-0 right-0 p-4 opacity-5 pointer-events-none">
+                <svg className="w-24 h-24" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2L4.5 20.29l.71.71L12 18l6.79 3 .71-.71z"/></svg>
               </div>
-            </div>
-
-            {directorVision && (
-              <div className="mb-6 bg-indigo-500/10 border border-indigo-500/30 p-4 rounded-xl animate-in fade-in slide-in-from-top-2 duration-500">
-                <div className="flex gap-3">
-                  <div className="text-xl">💡</div>
-                  <div>
-                    <h4 className="text-[10px] font-bold uppercase tracking-widest text-indigo-300 mb-1">Director's Insight</h4>
-                    <p className="text-xs text-indigo-100/80 leading-relaxed italic">"{directorVision}"</p>
-                  </div>
+              
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+                <h3 className="text-lg font-semibold flex items-center gap-2">
+                  <svg className="w-5 h-5 text-indigo-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                  </svg>
+                  Director's Suite
+                </h3>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={suggestParameters}
+                    disabled={!startImage || isSuggesting}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-full text-[10px] font-bold uppercase transition-all border shadow-lg ${!startImage ? 'bg-slate-800 border-slate-700 text-slate-600 cursor-not-allowed' : isSuggesting ? 'bg-indigo-600/20 border-indigo-500 text-indigo-300 animate-pulse' : 'bg-indigo-600 hover:bg-indigo-500 border-indigo-400 text-white active:scale-95'}`}
+                  >
+                    {isSuggesting ? <svg className="animate-spin h-3 w-3" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg> : <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>}
+                    AI Analysis Suggestion
+                  </button>
+                  <button onClick={() => setIsAdvancedMode(!isAdvancedMode)} className={`flex items-center gap-2 px-4 py-2 rounded-full text-[10px] font-bold uppercase transition-all border ${isAdvancedMode ? 'bg-blue-600 border-blue-400 text-white' : 'bg-slate-800 border-slate-700 text-slate-400'}`}>
+                    Advanced Mode
+                  </button>
                 </div>
               </div>
-            )}
-            
-            <div className="space-y-6">
-              {!isAdvancedMode ? (
-                <div className="flex flex-wrap gap-2 mb-2">
-                  {PRESETS.map((p) => (
-                    <button key={p.id} onClick={() => applyPreset(p)} className={`px-4 py-2 rounded-full text-xs font-bold transition-all flex items-center gap-2 border ${activePreset === p.id ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg' : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'}`}>
-                      <span>{p.icon}</span>{p.name}
-                    </button>
-                  ))}
-                </div>
-              ) : (
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-6 p-5 bg-slate-950/80 rounded-xl border border-white/5 shadow-2xl">
-                  <div className="space-y-3">
-                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest block">Camera Angle</label>
-                    <div className="grid grid-cols-2 gap-2">
-                      {ADVANCED_CAM_ANGLES.map(angle => (
-                        <button key={angle.id} onClick={() => setCamAngle(angle.id)} className={`flex items-center gap-2 p-2.5 rounded-lg text-xs font-bold border transition-all ${camAngle === angle.id ? 'bg-blue-600 border-blue-400 text-white shadow-lg shadow-blue-900/40' : 'bg-slate-900 border-white/5 text-slate-500 hover:text-slate-300'}`}>
-                          <span>{angle.icon}</span> {angle.name}
-                        </button>
-                      ))}
-                    </div>
-                  </div>
-                  <div className="space-y-3">
-                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest block">Camera Motion</label>
-                    <div className="space-y-1.5 h-32 overflow-y-auto pr-2 custom-scrollbar">
-                      {ADVANCED_MOTION.map(motion => (
-                        <button key={motion.id} onClick={() => setMotionType(motion.id)} className={`w-full text-left p-2.5 rounded-lg border transition-all ${motionType === motion.id ? 'bg-blue-600 border-blue-400 shadow-lg shadow-blue-900/40' : 'bg-slate-900 border-white/5'}`}>
-                          <p className={`text-xs font-bold ${motionType === motion.id ? 'text-white' : 'text-slate-300'}`}>{motion.name}</p>
-                          <p className="text-[9px] text-slate-500 leading-tight">{motion.desc}</p>
-                        </button>
-                      ))}
-                    </div>
-                  </div>
-                  <div className="space-y-3">
-                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest block">Atmosphere</label>
-                    <div className="flex flex-wrap gap-2">
-                      {ADVANCED_ATMOSPHERE.map(effect => (
-                        <button key={effect.id} onClick={() => toggleAtmosphere(effect.id)} className={`px-2 py-1.5 rounded-lg text-[10px] font-bold border transition-all ${atmosphere.includes(effect.id) ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900 border-white/5 text-slate-500 hover:text-slate-300'}`}>
-                          {effect.name}
-                        </button>
-                      ))}
+
+              {analysisError && (
+                <div className="mb-6 bg-red-500/10 border border-red-500/30 p-4 rounded-xl">
+                  <div className="flex gap-3">
+                    <div className="text-xl">⚠️</div>
+                    <div className="flex-grow">
+                      <h4 className="text-[10px] font-bold uppercase tracking-widest text-red-300 mb-1">Analysis Failed: {ERROR_GUIDANCE[analysisError.code].title}</h4>
+                      <p className="text-xs text-red-100/80 leading-relaxed">{ERROR_GUIDANCE[analysisError.code].guidance}</p>
                     </div>
+                    <button onClick={() => setAnalysisError(null)} className="text-red-300/60 hover:text-red-200 text-xs self-start">✕</button>
                   </div>
                 </div>
               )}
 
-              <div className="space-y-4">
-                <div className="relative group">
-                  <textarea
-                    value={prompt}
-                    onChange={(e) => { setPrompt(e.target.value); setActivePreset('custom'); setDirectorVision(null); }}
-                    placeholder="Describe the cinematic action..."
-                    className="w-full h-28 bg-slate-950 border border-slate-800 rounded-xl p-4 text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all resize-none text-sm shadow-inner scrollbar-hide"
-                  />
-                </div>
-                <div className="bg-slate-900/40 rounded-xl p-3 border border-white/5">
-                  <div className="flex items-center justify-between mb-2">
-                    <span className="text-[10px] font-bold text-slate-600 uppercase tracking-widest">Synthesis Engine Prompt</span>
-                    <span className="text-[10px] text-slate-500 font-mono">VEO-3.1-FP</span>
+              {directorVision && (
+                <div className="mb-6 bg-indigo-500/10 border border-indigo-500/30 p-4 rounded-xl animate-in fade-in slide-in-from-top-2 duration-500">
+                  <div className="flex gap-3">
+                    <div className="text-xl">💡</div>
+                    <div>
+                      <h4 className="text-[10px] font-bold uppercase tracking-widest text-indigo-300 mb-1">Director's Insight</h4>
+                      <p className="text-xs text-indigo-100/80 leading-relaxed italic">"{directorVision}"</p>
+                    </div>
                   </div>
-                  <p className="text-[11px] text-slate-400 font-medium leading-relaxed italic bg-slate-950/50 p-2 rounded-lg border border-white/5">"{enginePrompt}"</p>
                 </div>
-              </div>
+              )}
               
-              <button
-                onClick={generateVideo}
-                disabled={genState.isGenerating || !startImage}
-                className={`w-full py-4 rounded-xl font-bold text-lg transition-all flex items-center justify-center gap-3 shadow-2xl ${genState.isGenerating ? 'bg-slate-800 text-slate-500' : 'bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white active:scale-[0.98]'}`}
-              >
-                {genState.isGenerating ? <>
-                  <svg className="animate-spin h-6 w-6 text-blue-400" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                  {genState.status}
-                </> : <>
+              <div className="space-y-6">
+                <PresetBar
+                  showBuiltIns={!isAdvancedMode}
+                  activePreset={activePreset}
+                  onApplyBuiltIn={applyPreset}
+                  customPresets={customPresets.presets}
+                  onApplyCustom={applyCustomPreset}
+                  onSaveCurrent={(name, icon, category) => {
+                    const preset = customPresets.add(name, icon, category, { prompt, isAdvancedMode, camAngle, motionType, atmosphere, speed, motionBlur, stabilization });
+                    setActivePreset(preset.id);
+                  }}
+                  onDelete={customPresets.remove}
+                  onImport={customPresets.importPack}
+                />
+                {isAdvancedMode && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6 p-5 bg-slate-950/80 rounded-xl border border-white/5 shadow-2xl">
+                    <div className="space-y-3">
+                      <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest block">Camera Angle</label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {ADVANCED_CAM_ANGLES.map(angle => (
+                          <button key={angle.id} onClick={() => setCamAngle(angle.id)} className={`flex items-center gap-2 p-2.5 rounded-lg text-xs font-bold border transition-all ${camAngle === angle.id ? 'bg-blue-600 border-blue-400 text-white shadow-lg shadow-blue-900/40' : 'bg-slate-900 border-white/5 text-slate-500 hover:text-slate-300'}`}>
+                            <span>{angle.icon}</span> {angle.name}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="space-y-3">
+                      <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest block">Camera Motion</label>
+                      <div className="space-y-1.5 h-32 overflow-y-auto pr-2 custom-scrollbar">
+                        {ADVANCED_MOTION.map(motion => (
+                          <button key={motion.id} onClick={() => setMotionType(motion.id)} className={`w-full text-left p-2.5 rounded-lg border transition-all ${motionType === motion.id ? 'bg-blue-600 border-blue-400 shadow-lg shadow-blue-900/40' : 'bg-slate-900 border-white/5'}`}>
+                            <p className={`text-xs font-bold ${motionType === motion.id ? 'text-white' : 'text-slate-300'}`}>{motion.name}</p>
+                            <p className="text-[9px] text-slate-500 leading-tight">{motion.desc}</p>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="space-y-3">
+                      <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest block">Atmosphere</label>
+                      <div className="flex flex-wrap gap-2">
+                        {ADVANCED_ATMOSPHERE.map(effect => (
+                          <button key={effect.id} onClick={() => toggleAtmosphere(effect.id)} className={`px-2 py-1.5 rounded-lg text-[10px] font-bold border transition-all ${atmosphere.includes(effect.id) ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900 border-white/5 text-slate-500 hover:text-slate-300'}`}>
+                            {effect.name}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-4">
+                  <div className="relative group">
+                    <textarea
+                      value={prompt}
+                      onChange={(e) => { setPrompt(e.target.value); setActivePreset('custom'); setDirectorVision(null); }}
+                      placeholder="Describe the cinematic action... Use {{variables}} for matrix renders."
+                      className="w-full h-28 bg-slate-950 border border-slate-800 rounded-xl p-4 text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all resize-none text-sm shadow-inner scrollbar-hide"
+                    />
+                  </div>
+                  {activeVariables.length > 0 && (
+                    <PromptVariablesPanel
+                      variables={activeVariables}
+                      onChange={updateVariable}
+                      onRenderMatrix={renderMatrix}
+                      canRender={!!startImage}
+                    />
+                  )}
+                  <EnginePromptPreview enginePrompt={builtPrompt} phrasebook={phrasebook} onPhrasebookChange={setPhrasebook} />
+                </div>
+                
+                <button
+                  onClick={generateVideo}
+                  disabled={!startImage}
+                  className={`w-full py-4 rounded-xl font-bold text-lg transition-all flex items-center justify-center gap-3 shadow-2xl ${!startImage ? 'bg-slate-800 text-slate-500' : 'bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white active:scale-[0.98]'}`}
+                >
                   <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
-                  Render Scene
-                </>}
-              </button>
+                  {jobs.some(j => j.phase === 'running' || j.phase === 'queued') ? 'Add to Render Queue' : 'Render Scene'}
+                </button>
+              </div>
             </div>
-          </div>
-
-          <div className="glass-panel p-6 rounded-2xl min-h-[440px] flex flex-col border-white/5 shadow-2xl">
-            <h3 className="text-lg font-semibold mb-6 flex items-center justify-between">
-              Final Output
-              {genState.videoUrl && <a href={genState.videoUrl} download="gemini-scene.mp4" className="text-[10px] px-4 py-2 bg-blue-600 text-white rounded-full hover:bg-blue-500 transition-colors flex items-center gap-1.5 font-bold uppercase shadow-lg shadow-blue-900/40">Download MP4</a>}
-            </h3>
-            <div className="flex-grow flex items-center justify-center bg-slate-950 rounded-xl overflow-hidden relative border border-white/5 shadow-inner">
-              {genState.isGenerating ? (
-                <div className="text-center p-8 w-full max-w-sm">
-                  <div className="mb-6 relative h-2 bg-slate-900 rounded-full overflow-hidden">
-                    <div className="absolute h-full bg-gradient-to-r from-blue-500 to-indigo-500 transition-all duration-500 shadow-[0_0_15px_rgba(99,102,241,0.5)]" style={{ width: `${genState.progress}%` }}></div>
+          )}
+
+          <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+            <div className="xl:col-span-2 glass-panel p-6 rounded-2xl min-h-[440px] flex flex-col border-white/5 shadow-2xl">
+              <h3 className="text-lg font-semibold mb-6 flex items-center justify-between">
+                Final Output
+                {genState.videoUrl && (
+                  <div className="flex gap-2">
+                    {hasSoundtrack(soundtrack) && (
+                      <MixdownButton
+                        videoUrl={genState.videoUrl}
+                        aspectRatio={focusedJob?.params.aspectRatio ?? aspectRatio}
+                        resolution={focusedJob?.params.resolution ?? resolution}
+                        soundtrack={soundtrack}
+                        fileName="gemini-scene"
+                      />
+                    )}
+                    <a href={genState.videoUrl} download="gemini-scene.mp4" className="text-[10px] px-4 py-2 bg-blue-600 text-white rounded-full hover:bg-blue-500 transition-colors flex items-center gap-1.5 font-bold uppercase shadow-lg shadow-blue-900/40">{hasSoundtrack(soundtrack) ? 'Video Only' : 'Download MP4'}</a>
                   </div>
-                  <p className="text-indigo-400 font-bold mb-1 uppercase tracking-widest text-xs">{genState.status}</p>
-                </div>
-              ) : genState.videoUrl ? (
-                <video ref={videoRef} src={genState.videoUrl} controls autoPlay loop className={`w-full h-full object-contain ${aspectRatio === '9:16' ? 'aspect-[9/16]' : 'aspect-video'}`} />
-              ) : genState.error ? (
-                <div className="text-center p-8 bg-red-900/10 border border-red-500/20 rounded-xl w-full max-w-md"><div className="text-4xl mb-4 text-red-500">✕</div><h4 className="text-red-400 font-bold mb-2">Rendering Failed</h4><p className="text-red-300/60 text-xs mb-6 leading-relaxed">{genState.error}</p></div>
-              ) : (
-                <div className="text-center p-12"><div className="w-24 h-24 mx-auto mb-6 rounded-full bg-slate-900 flex items-center justify-center border border-white/5 shadow-inner"><svg className="w-12 h-12 text-slate-800" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M7 4v16M17 4v16M3 8h4m10 0h4M3 12h18M3 16h4m10 0h4M4 20h16a1 1 0 001-1V5a1 1 0 00-1-1H4a1 1 0 00-1-1H4a1 1 0 00-1 1v14a1 1 0 001 1z" /></svg></div><p className="text-slate-500 font-bold uppercase tracking-widest text-xs mb-1">Director's Monitor</p></div>
+                )}
+              </h3>
+              <div className="flex-grow flex items-center justify-center bg-slate-950 rounded-xl overflow-hidden relative border border-white/5 shadow-inner">
+                {genState.isGenerating ? (
+                  <GenerationProgress state={genState} onCancel={focusedJob ? () => cancel(focusedJob.id) : undefined} />
+                ) : genState.videoUrl ? (
+                  <video ref={videoRef} src={genState.videoUrl} controls autoPlay loop className={`w-full h-full object-contain ${(focusedJob?.params.aspectRatio ?? aspectRatio) === '9:16' ? 'aspect-[9/16]' : 'aspect-video'}`} />
+                ) : genState.error ? (
+                  <div className="text-center p-8 bg-red-900/10 border border-red-500/20 rounded-xl w-full max-w-md"><div className="text-4xl mb-4 text-red-500">✕</div><h4 className="text-red-400 font-bold mb-2">{ERROR_GUIDANCE[genState.errorCode ?? 'unknown'].title}</h4><p className="text-red-200/80 text-xs mb-3 leading-relaxed">{ERROR_GUIDANCE[genState.errorCode ?? 'unknown'].guidance}</p><p className="text-red-300/50 text-[10px] font-mono mb-6 leading-relaxed break-words">{genState.error}</p>{focusedJob && <button onClick={() => retry(focusedJob.id)} className="px-4 py-2 rounded-full text-[10px] font-bold uppercase border border-red-500/40 text-red-300 hover:bg-red-600/20 transition-all">Retry Render</button>}</div>
+                ) : (
+                  <div className="text-center p-12"><div className="w-24 h-24 mx-auto mb-6 rounded-full bg-slate-900 flex items-center justify-center border border-white/5 shadow-inner"><svg className="w-12 h-12 text-slate-800" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M7 4v16M17 4v16M3 8h4m10 0h4M3 12h18M3 16h4m10 0h4M4 20h16a1 1 0 001-1V5a1 1 0 00-1-1H4a1 1 0 00-1-1H4a1 1 0 00-1 1v14a1 1 0 001 1z" /></svg></div><p className="text-slate-500 font-bold uppercase tracking-widest text-xs mb-1">Director's Monitor</p></div>
+                )}
+              </div>
+              {soundtrackError && genState.videoUrl && !genState.isGenerating && (
+                <p className="text-[10px] text-amber-400/80">Soundtrack preview unavailable. {soundtrackError}</p>
+              )}
+              {genState.videoUrl && !genState.isGenerating && (
+                <AudioTimelineEditor
+                  videoRef={videoRef}
+                  videoUrl={genState.videoUrl}
+                  timeline={audioTimeline}
+                  onChange={setAudioTimeline}
+                  sfxOptions={audioLibrary.catalog.sfx}
+                  defaultSfxId={selectedSfxId !== 'none' ? selectedSfxId : audioLibrary.catalog.sfx[1].id}
+                  musicName={activeBgMusic?.id !== 'none' ? activeBgMusic?.name : undefined}
+                  tempo={tempo.analysis}
+                />
               )}
             </div>
+
+            <RenderQueuePanel
+              jobs={jobs}
+              focusedJobId={focusedJobId}
+              concurrency={concurrency}
+              onConcurrencyChange={setConcurrency}
+              onFocus={setFocusedJobId}
+              onCancel={cancel}
+              onRetry={retry}
+              onRemove={(id) => {
+                remove(id);
+                if (id === focusedJobId) setFocusedJobId(null);
+              }}
+            />
           </div>
+
+          <SequenceExportPanel
+            jobs={jobs}
+            preselectedIds={sequenceJobs.every(j => j.phase === 'complete') ? sequenceJobs.map(j => j.id) : []}
+            aspectRatio={aspectRatio}
+            resolution={resolution}
+            soundtrack={soundtrack}
+            beatGrid={tempo.analysis && activeBgMusic?.url ? beatsOnTimeline(tempo.analysis, audioTimeline, MAX_SEQUENCE_SECONDS) : undefined}
+          />
+
+          <BatchRenderPanel
+            catalog={audioLibrary.catalog}
+            jobs={jobs}
+            enqueue={enqueue}
+            cancel={cancel}
+          />
+
+          <RenderHistoryPanel
+            entries={history.entries}
+            onRestore={restoreFromHistory}
+            onDelete={history.remove}
+          />
         </div>
       </div>
       
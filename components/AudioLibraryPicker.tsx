@@ -0,0 +1,81 @@
+
+import React, { useRef, useState } from 'react';
+import { AudioOption } from '../types';
+
+interface AudioLibraryPickerProps {
+  options: AudioOption[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onUpload: (file: File) => Promise<unknown>;
+  onDelete: (id: string) => void;
+  accent: 'indigo' | 'blue';
+}
+
+const SELECTED_CLASSES = {
+  indigo: 'bg-indigo-600/20 border-indigo-500 text-indigo-300',
+  blue: 'bg-blue-600/20 border-blue-500 text-blue-300',
+};
+
+const formatDuration = (s: number) => `${Math.floor(s / 60)}:${Math.round(s % 60).toString().padStart(2, '0')}`;
+
+const Waveform: React.FC<{ peaks: number[] }> = ({ peaks }) => (
+  <svg viewBox={`0 0 ${peaks.length} 10`} preserveAspectRatio="none" className="w-full h-3">
+    {peaks.map((peak, i) => {
+      const h = Math.max(peak * 10, 0.5);
+      return <rect key={i} x={i + 0.15} y={(10 - h) / 2} width={0.7} height={h} fill="currentColor" />;
+    })}
+  </svg>
+);
+
+/**
+ * Grid of built-in and uploaded tracks for one Audio Mixing channel, with an upload tile at the end.
+ */
+export const AudioLibraryPicker: React.FC<AudioLibraryPickerProps> = ({ options, selectedId, onSelect, onUpload, onDelete, accent }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    setIsUploading(true);
+    setUploadError(null);
+    for (const file of files) {
+      try {
+        await onUpload(file);
+      } catch (err) {
+        setUploadError(err instanceof Error ? err.message : String(err));
+      }
+    }
+    setIsUploading(false);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="grid grid-cols-3 gap-1.5">
+        {options.map((audio) => (
+          <div key={audio.id} className="relative group">
+            <button onClick={() => onSelect(audio.id)} title={audio.name} className={`w-full p-2 rounded-lg border text-center transition-all ${selectedId === audio.id ? SELECTED_CLASSES[accent] : 'bg-slate-900 border-white/5 text-slate-500 hover:text-slate-300'}`}>
+              {audio.peaks ? <Waveform peaks={audio.peaks} /> : <div className="text-sm">{audio.icon}</div>}
+              <div className="text-[8px] font-bold truncate">{audio.name}</div>
+              {audio.duration !== undefined && <div className="text-[8px] font-mono opacity-60">{formatDuration(audio.duration)}</div>}
+            </button>
+            {audio.custom && (
+              <button onClick={() => onDelete(audio.id)} title="Remove from library" className="absolute -top-1 -right-1 w-4 h-4 rounded-full bg-red-600 text-white text-[8px] font-bold hidden group-hover:flex items-center justify-center">✕</button>
+            )}
+          </div>
+        ))}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+          className="p-2 rounded-lg border-2 border-dashed border-slate-700 hover:border-slate-500 text-slate-500 hover:text-slate-300 transition-all"
+        >
+          <div className="text-sm">{isUploading ? '…' : '+'}</div>
+          <div className="text-[8px] font-bold uppercase">{isUploading ? 'Decoding' : 'Upload'}</div>
+        </button>
+      </div>
+      <input ref={fileInputRef} type="file" className="hidden" accept="audio/*" multiple onChange={handleFiles} />
+      {uploadError && <p className="text-[9px] text-red-400">{uploadError}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { beatsOnTimeline, snapToBeat } from '../services/beatDetection';
+import { AudioOption, AudioTimeline, SfxCue, TempoAnalysis } from '../types';
+
+interface AudioTimelineEditorProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  videoUrl: string;
+  timeline: AudioTimeline;
+  onChange: (timeline: AudioTimeline) => void;
+  sfxOptions: AudioOption[];
+  defaultSfxId: string;
+  musicName?: string;
+  tempo?: TempoAnalysis | null;
+}
+
+const createCueId = () => `cue-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+const formatTime = (s: number) => `${s.toFixed(2)}s`;
+
+const NumberField: React.FC<{ label: string; value: number | null; onChange: (value: number | null) => void; placeholder?: string }> = ({ label, value, onChange, placeholder }) => (
+  <label className="space-y-1 block">
+    <span className="text-[9px] font-bold text-slate-500 uppercase tracking-widest block">{label}</span>
+    <input
+      type="number"
+      min="0"
+      step="0.1"
+      value={value ?? ''}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value === '' ? null : Math.max(parseFloat(e.target.value) || 0, 0))}
+      className="w-full bg-slate-900 border border-white/5 rounded-lg px-2 py-1.5 text-[10px] font-mono text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500"
+    />
+  </label>
+);
+
+/**
+ * Lanes for the music bed and SFX cues laid out against the video's running time.
+ * Clicking a lane seeks the video; cue markers can be dragged to retime them.
+ */
+export const AudioTimelineEditor: React.FC<AudioTimelineEditorProps> = ({
+  videoRef, videoUrl, timeline, onChange, sfxOptions, defaultSfxId, musicName, tempo
+}) => {
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [newCueSfxId, setNewCueSfxId] = useState(defaultSfxId);
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  const lanesRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<string | null>(null);
+
+  useEffect(() => setNewCueSfxId(defaultSfxId), [defaultSfxId]);
+
+  // Follow the playhead every frame rather than on the coarse timeupdate event
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const syncDuration = () => setDuration(isFinite(video.duration) ? video.duration : 0);
+    syncDuration();
+    video.addEventListener('loadedmetadata', syncDuration);
+    let frame = requestAnimationFrame(function tick() {
+      setCurrentTime(video.currentTime);
+      frame = requestAnimationFrame(tick);
+    });
+    return () => {
+      video.removeEventListener('loadedmetadata', syncDuration);
+      cancelAnimationFrame(frame);
+    };
+  }, [videoUrl]);
+
+  const update = (patch: Partial<AudioTimeline>) => onChange({ ...timeline, ...patch });
+  const updateCue = (id: string, patch: Partial<SfxCue>) => update({ cues: timeline.cues.map(c => c.id === id ? { ...c, ...patch } : c) });
+
+  const beats = tempo && musicName && duration > 0 ? beatsOnTimeline(tempo, timeline, duration) : [];
+  const snap = (t: number) => Math.round((snapEnabled && beats.length > 0 ? snapToBeat(t, beats) : t) * 100) / 100;
+
+  const percent = (t: number) => `${duration > 0 ? Math.min(Math.max(t / duration, 0), 1) * 100 : 0}%`;
+
+  const timeAtPointer = (clientX: number) => {
+    const rect = lanesRef.current?.getBoundingClientRect();
+    if (!rect || duration === 0) return 0;
+    return Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1) * duration;
+  };
+
+  const seek = (e: React.MouseEvent) => {
+    if (videoRef.current && !dragRef.current) videoRef.current.currentTime = timeAtPointer(e.clientX);
+  };
+
+  const handleCuePointerMove = (e: React.PointerEvent) => {
+    if (dragRef.current) updateCue(dragRef.current, { at: snap(timeAtPointer(e.clientX)) });
+  };
+
+  const addCue = () => {
+    if (newCueSfxId === 'none') return;
+    const cue: SfxCue = { id: createCueId(), sfxId: newCueSfxId, at: snap(currentTime), volume: 1 };
+    update({ cues: [...timeline.cues, cue].sort((a, b) => a.at - b.at) });
+  };
+
+  const sfxIcon = (id: string) => sfxOptions.find(o => o.id === id)?.icon ?? '🔊';
+
+  return (
+    <div className="space-y-4 pt-4 border-t border-white/5">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Audio Timeline</span>
+        <span className="text-[10px] text-slate-500 font-mono">{formatTime(currentTime)} / {formatTime(duration)}</span>
+      </div>
+
+      <div
+        ref={lanesRef}
+        onClick={seek}
+        onPointerMove={handleCuePointerMove}
+        onPointerUp={() => { setTimeout(() => { dragRef.current = null; }); }}
+        className="relative space-y-1.5 cursor-pointer select-none"
+      >
+        <div className="relative h-8 bg-slate-950 rounded-lg border border-white/5 overflow-hidden">
+          {musicName && (
+            <div
+              className="absolute inset-y-1 right-0 rounded bg-indigo-600/40 border border-indigo-500/40 flex items-center px-2 text-[9px] font-bold text-indigo-200 truncate"
+              style={{ left: percent(timeline.musicOffset) }}
+            >
+              <div className="absolute inset-y-0 left-0 bg-gradient-to-r from-slate-950 to-transparent" style={{ width: percent(timeline.fadeIn) }} />
+              <div className="absolute inset-y-0 right-0 bg-gradient-to-l from-slate-950 to-transparent" style={{ width: percent(timeline.fadeOut) }} />
+              <span className="relative">♫ {musicName}</span>
+            </div>
+          )}
+        </div>
+        <div className="relative h-8 bg-slate-950 rounded-lg border border-white/5">
+          {beats.map((beat, i) => (
+            <div key={i} className="absolute inset-y-0 w-px bg-white/10 pointer-events-none" style={{ left: percent(beat) }} />
+          ))}
+          {timeline.cues.map(cue => (
+            <div
+              key={cue.id}
+              onPointerDown={(e) => {
+                e.stopPropagation();
+                (e.target as HTMLElement).setPointerCapture(e.pointerId);
+                dragRef.current = cue.id;
+              }}
+              title={`${formatTime(cue.at)} — drag to move`}
+              className="absolute top-1 bottom-1 -ml-3 w-6 rounded bg-blue-600/60 border border-blue-400/60 flex items-center justify-center text-[10px] cursor-ew-resize"
+              style={{ left: percent(cue.at) }}
+            >
+              {sfxIcon(cue.sfxId)}
+            </div>
+          ))}
+        </div>
+        <div className="absolute inset-y-0 w-px bg-red-400 pointer-events-none" style={{ left: percent(currentTime) }} />
+      </div>
+
+      <div className="flex gap-2">
+        <select value={newCueSfxId} onChange={(e) => setNewCueSfxId(e.target.value)} className="flex-grow bg-slate-900 border border-white/5 rounded-lg p-2 text-[10px] font-bold text-slate-300">
+          {sfxOptions.filter(o => o.id !== 'none').map(o => <option key={o.id} value={o.id}>{o.icon} {o.name}</option>)}
+        </select>
+        <button onClick={addCue} className="px-4 py-2 rounded-lg text-[10px] font-bold uppercase bg-blue-600 text-white hover:bg-blue-500 transition-all">+ Cue at Playhead</button>
+      </div>
+
+      {beats.length > 0 && (
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest cursor-pointer">
+            <input type="checkbox" checked={snapEnabled} onChange={(e) => setSnapEnabled(e.target.checked)} className="accent-blue-500" />
+            Snap cues to beats ({tempo!.bpm} BPM)
+          </label>
+          {timeline.cues.length > 0 && (
+            <button onClick={() => update({ cues: timeline.cues.map(c => ({ ...c, at: Math.round(snapToBeat(c.at, beats) * 100) / 100 })) })} className="text-[9px] text-blue-400 font-bold uppercase hover:text-blue-300">Snap All Cues</button>
+          )}
+        </div>
+      )}
+
+      {timeline.cues.length > 0 && (
+        <div className="space-y-1.5">
+          {timeline.cues.map(cue => (
+            <div key={cue.id} className="flex items-center gap-2 p-2 bg-slate-950/80 rounded-lg border border-white/5">
+              <select value={cue.sfxId} onChange={(e) => updateCue(cue.id, { sfxId: e.target.value })} className="bg-slate-900 border border-white/5 rounded p-1 text-[10px] font-bold text-slate-300">
+                {sfxOptions.filter(o => o.id !== 'none').map(o => <option key={o.id} value={o.id}>{o.icon} {o.name}</option>)}
+              </select>
+              <input type="number" min="0" step="0.05" value={cue.at} onChange={(e) => updateCue(cue.id, { at: Math.max(parseFloat(e.target.value) || 0, 0) })} className="w-20 bg-slate-900 border border-white/5 rounded px-2 py-1 text-[10px] font-mono text-slate-200" />
+              <input type="range" min="0" max="1" step="0.01" value={cue.volume} onChange={(e) => updateCue(cue.id, { volume: parseFloat(e.target.value) })} className="flex-grow h-1 accent-blue-500" />
+              <span className="text-[9px] text-slate-500 font-mono w-8 text-right">{Math.round(cue.volume * 100)}%</span>
+              <button onClick={() => update({ cues: timeline.cues.filter(c => c.id !== cue.id) })} className="text-[9px] text-red-400 font-bold uppercase">✕</button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+        <NumberField label="Trim In" value={timeline.musicTrimStart} onChange={(v) => update({ musicTrimStart: v ?? 0 })} />
+        <NumberField label="Trim Out" value={timeline.musicTrimEnd} placeholder="end" onChange={(v) => update({ musicTrimEnd: v })} />
+        <NumberField label="Offset" value={timeline.musicOffset} onChange={(v) => update({ musicOffset: v ?? 0 })} />
+        <NumberField label="Fade In" value={timeline.fadeIn} onChange={(v) => update({ fadeIn: v ?? 0 })} />
+        <NumberField label="Fade Out" value={timeline.fadeOut} onChange={(v) => update({ fadeOut: v ?? 0 })} />
+        <label className="space-y-1 block">
+          <span className="text-[9px] font-bold text-slate-500 uppercase tracking-widest block">Duck {Math.round((1 - timeline.duckLevel) * 100)}%</span>
+          <input type="range" min="0" max="1" step="0.05" value={1 - timeline.duckLevel} onChange={(e) => update({ duckLevel: 1 - parseFloat(e.target.value) })} className="w-full h-1 mt-2.5 accent-indigo-500" />
+        </label>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,234 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { BATCH_RATE_LIMITS } from '../constants';
+import { parseBatchManifest } from '../services/batchManifest';
+import { batchClipName, createBatchArchive, createBatchMixer, createRateLimiter } from '../services/batchRender';
+import { classifyError } from '../services/errors';
+import { AudioCatalog, BatchRow, BatchRowStatus, GenerationParams, RenderJob } from '../types';
+
+interface BatchRenderPanelProps {
+  catalog: AudioCatalog;
+  jobs: RenderJob[];
+  enqueue: (params: GenerationParams, label: string) => string;
+  cancel: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<BatchRowStatus, string> = {
+  invalid: 'bg-red-500/10 text-red-400',
+  pending: 'bg-slate-800 text-slate-400',
+  running: 'bg-blue-500/10 text-blue-300',
+  mixing: 'bg-indigo-500/10 text-indigo-300',
+  complete: 'bg-emerald-500/10 text-emerald-400',
+  failed: 'bg-red-500/10 text-red-400',
+  cancelled: 'bg-slate-800 text-slate-500',
+};
+
+// Rows in these states are picked up again by the next run
+const RUNNABLE: BatchRowStatus[] = ['pending', 'failed', 'cancelled'];
+
+/**
+ * Validates a manifest and renders its rows through the shared render queue, so batch jobs
+ * share its concurrency limit, are persisted while in flight and feed the render time estimates.
+ */
+export const BatchRenderPanel: React.FC<BatchRenderPanelProps> = ({ catalog, jobs, enqueue, cancel }) => {
+  const [manifest, setManifest] = useState<File | null>(null);
+  const [images, setImages] = useState<File[]>([]);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [perMinute, setPerMinute] = useState(BATCH_RATE_LIMITS[1].perMinute);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  // Queue job id → manifest row, for the jobs this panel is still waiting on
+  const batchJobsRef = useRef<Map<string, number>>(new Map());
+  const mixRef = useRef(createBatchMixer());
+  const manifestInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  // Read through a ref so library changes don't re-validate, and reset, a manifest mid-batch
+  const catalogRef = useRef(catalog);
+  catalogRef.current = catalog;
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (!manifest) return;
+    let cancelled = false;
+    setError(null);
+    parseBatchManifest(manifest, images, catalogRef.current)
+      .then(parsed => {
+        if (cancelled) return;
+        batchJobsRef.current.clear();
+        setRows(parsed);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setRows([]);
+        setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => { cancelled = true; };
+  }, [manifest, images]);
+
+  const updateRow = (row: number, patch: Partial<BatchRow>) => {
+    setRows(prev => prev.map(r => r.row === row ? { ...r, ...patch } : r));
+  };
+
+  const finishRow = async (row: BatchRow, videoUrl: string) => {
+    try {
+      const clip = await (await fetch(videoUrl)).blob();
+      let { blob, mimeType } = { blob: clip, mimeType: clip.type };
+      if (row.music) {
+        updateRow(row.row, { status: 'mixing', progress: 0 });
+        ({ blob, mimeType } = await mixRef.current(row, clip, {
+          catalog: catalogRef.current,
+          signal: abortRef.current?.signal,
+          onProgress: (progress) => updateRow(row.row, { progress })
+        }));
+      }
+      updateRow(row.row, { status: 'complete', progress: 100, result: blob, fileName: batchClipName(row.row, mimeType) });
+    } catch (err) {
+      const error = classifyError(err);
+      updateRow(row.row, { status: error.code === 'cancelled' ? 'cancelled' : 'failed', errors: [error.message] });
+    }
+  };
+
+  // Follow the queue jobs this batch submitted and settle their rows as they finish
+  useEffect(() => {
+    batchJobsRef.current.forEach((rowNumber, jobId) => {
+      const job = jobs.find(j => j.id === jobId);
+      const row = rows.find(r => r.row === rowNumber);
+      if (job && row && (job.phase === 'queued' || job.phase === 'running')) {
+        if (row.progress !== job.progress) updateRow(rowNumber, { progress: job.progress });
+        return;
+      }
+      batchJobsRef.current.delete(jobId);
+      if (!job || !row) {
+        updateRow(rowNumber, { status: 'cancelled', errors: ['The job was removed from the render queue.'] });
+      } else if (job.phase === 'complete') {
+        finishRow(row, job.videoUrl!);
+      } else {
+        updateRow(rowNumber, { status: job.phase, errors: job.error ? [job.error] : [] });
+      }
+    });
+  }, [jobs]);
+
+  const startBatch = async () => {
+    const controller = new AbortController();
+    abortRef.current?.abort();
+    abortRef.current = controller;
+    const waitForSlot = createRateLimiter(60000 / perMinute);
+    setIsSubmitting(true);
+    try {
+      for (const row of rows.filter(r => r.params && RUNNABLE.includes(r.status))) {
+        await waitForSlot(controller.signal);
+        const jobId = enqueue(row.params!, `Batch • ${manifest?.name ?? 'manifest'} • Row ${row.row}`);
+        batchJobsRef.current.set(jobId, row.row);
+        updateRow(row.row, { status: 'running', progress: 0, errors: [], result: undefined, fileName: undefined });
+      }
+    } catch {
+      // Cancelled: rows that weren't handed to the queue yet keep their status
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const cancelBatch = () => {
+    abortRef.current?.abort();
+    batchJobsRef.current.forEach((_row, jobId) => cancel(jobId));
+  };
+
+  const downloadResults = async () => {
+    const archive = await createBatchArchive(manifest?.name ?? 'manifest', rows);
+    const url = URL.createObjectURL(archive);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(manifest?.name ?? 'batch').replace(/\.[^.]+$/, '')}-results.zip`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  const counts = rows.reduce<Partial<Record<BatchRowStatus, number>>>((acc, r) => ({ ...acc, [r.status]: (acc[r.status] ?? 0) + 1 }), {});
+  const runnable = rows.filter(r => r.params && RUNNABLE.includes(r.status)).length;
+  const hasResults = rows.some(r => r.status === 'complete' || r.status === 'failed');
+  const isRunning = isSubmitting || rows.some(r => r.status === 'running' || r.status === 'mixing');
+
+  const pickerClass = "flex-1 p-3 rounded-xl border border-dashed border-slate-700 hover:border-blue-500/50 bg-slate-900/60 text-left transition-all disabled:opacity-50";
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl border-white/5 shadow-2xl space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Batch Render</h3>
+        <span className="text-[10px] text-slate-500 font-mono">CSV / JSON manifest</span>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3">
+        <button onClick={() => manifestInputRef.current?.click()} disabled={isRunning} className={pickerClass}>
+          <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Manifest</p>
+          <p className="text-xs text-slate-300 truncate">{manifest?.name ?? 'Choose a .csv or .json file'}</p>
+        </button>
+        <button onClick={() => folderInputRef.current?.click()} disabled={isRunning} className={pickerClass}>
+          <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Images Folder</p>
+          <p className="text-xs text-slate-300 truncate">{images.length > 0 ? `${images.length} files` : 'Choose the folder the manifest paths point into'}</p>
+        </button>
+        <input ref={manifestInputRef} type="file" className="hidden" accept=".csv,.json,text/csv,application/json" onChange={(e) => { setManifest(e.target.files?.[0] ?? null); e.target.value = ''; }} />
+        <input ref={folderInputRef} type="file" className="hidden" multiple {...{ webkitdirectory: '' }} onChange={(e) => { setImages(Array.from(e.target.files ?? [])); e.target.value = ''; }} />
+      </div>
+
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+
+      {rows.length > 0 && (
+        <>
+          <div className="max-h-72 overflow-y-auto custom-scrollbar border border-white/5 rounded-xl">
+            <table className="w-full text-[10px]">
+              <thead className="sticky top-0 bg-slate-950 text-slate-500 uppercase tracking-widest">
+                <tr>
+                  <th className="p-2 text-left">#</th>
+                  <th className="p-2 text-left">Frames</th>
+                  <th className="p-2 text-left">Prompt</th>
+                  <th className="p-2 text-left">Format</th>
+                  <th className="p-2 text-left">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(r => (
+                  <tr key={r.row} className="border-t border-white/5 align-top">
+                    <td className="p-2 font-mono text-slate-500">{r.row}</td>
+                    <td className="p-2 text-slate-300 max-w-[10rem] truncate">{r.source.start}{r.source.end ? ` → ${r.source.end}` : ''}</td>
+                    <td className="p-2 text-slate-400 max-w-[16rem] truncate" title={r.source.prompt}>{r.source.prompt}</td>
+                    <td className="p-2 font-mono text-slate-500 whitespace-nowrap">{r.params ? `${r.params.aspectRatio} • ${r.params.resolution}${r.music ? ' • ♪' : ''}` : '–'}</td>
+                    <td className="p-2">
+                      <span className={`px-2 py-0.5 rounded-full font-bold uppercase ${STATUS_STYLES[r.status]}`}>
+                        {r.status}{(r.status === 'running' || r.status === 'mixing') ? ` ${r.progress}%` : ''}
+                      </span>
+                      {r.errors.map(e => <p key={e} className="mt-1 text-red-400/80 leading-tight">{e}</p>)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Rate</span>
+              <select value={perMinute} onChange={(e) => setPerMinute(Number(e.target.value))} disabled={isRunning} className="bg-slate-900 border border-white/5 rounded-lg px-2 py-1 text-[10px] text-slate-300">
+                {BATCH_RATE_LIMITS.map(opt => <option key={opt.perMinute} value={opt.perMinute}>{opt.label}</option>)}
+              </select>
+            </div>
+            <p className="text-[10px] text-slate-500 font-mono flex-grow">
+              {Object.entries(counts).map(([status, count]) => `${count} ${status}`).join(' • ')}
+            </p>
+            {isRunning ? (
+              <button onClick={cancelBatch} className="px-4 py-2 rounded-full text-[10px] font-bold uppercase bg-red-600/20 border border-red-500/40 text-red-300">Cancel Batch</button>
+            ) : (
+              <button onClick={startBatch} disabled={runnable === 0} className="px-4 py-2 rounded-full text-[10px] font-bold uppercase bg-blue-600 text-white hover:bg-blue-500 disabled:bg-slate-800 disabled:text-slate-500">
+                Render {runnable} {runnable === 1 ? 'Row' : 'Rows'}
+              </button>
+            )}
+            <button onClick={downloadResults} disabled={isRunning || !hasResults} className="px-4 py-2 rounded-full text-[10px] font-bold uppercase bg-emerald-600 text-white hover:bg-emerald-500 disabled:bg-slate-800 disabled:text-slate-500">
+              Download Results (.zip)
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
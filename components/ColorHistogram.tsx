@@ -0,0 +1,56 @@
+
+import React, { useEffect, useRef } from 'react';
+import { Histogram } from '../utils/colorGrade';
+
+interface ColorHistogramProps {
+  histogram: Histogram | null;
+}
+
+const HEIGHT = 96;
+
+/**
+ * RGB histogram of the frame as it will be saved, with luma drawn as an outline.
+ * Pure black and white are left out of the scale so clipping doesn't flatten the rest.
+ */
+export const ColorHistogram: React.FC<ColorHistogramProps> = ({ histogram }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!histogram) return;
+
+    const channels = [histogram.red, histogram.green, histogram.blue, histogram.luma];
+    const peak = Math.max(1, ...channels.map(bins => Math.max(...bins.subarray(1, 255))));
+    const heightOf = (count: number) => Math.min(count / peak, 1) * HEIGHT;
+
+    const fills: [Uint32Array, string][] = [
+      [histogram.red, 'rgba(239, 68, 68, 0.7)'],
+      [histogram.green, 'rgba(34, 197, 94, 0.7)'],
+      [histogram.blue, 'rgba(59, 130, 246, 0.7)'],
+    ];
+    ctx.globalCompositeOperation = 'lighter';
+    fills.forEach(([bins, color]) => {
+      ctx.fillStyle = color;
+      bins.forEach((count, x) => ctx.fillRect(x, HEIGHT - heightOf(count), 1, heightOf(count)));
+    });
+    ctx.globalCompositeOperation = 'source-over';
+
+    ctx.beginPath();
+    histogram.luma.forEach((count, x) => (x === 0 ? ctx.moveTo(x, HEIGHT - heightOf(count)) : ctx.lineTo(x, HEIGHT - heightOf(count))));
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+  }, [histogram]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={256}
+      height={HEIGHT}
+      className="w-full h-24 bg-slate-950/60 rounded-lg border border-white/5"
+    />
+  );
+};
@@ -0,0 +1,131 @@
+
+import React, { useRef, useState } from 'react';
+import { DEFAULT_EDITOR_PARAMS, MAX_CURVE_POINTS } from '../constants';
+import { CurveChannel, CurvePoint, ToneCurves } from '../types';
+import { sampleCurve } from '../utils/colorGrade';
+
+interface CurvesEditorProps {
+  curves: ToneCurves;
+  onChange: (curves: ToneCurves, commit?: boolean) => void;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+}
+
+const CHANNELS: { id: CurveChannel; label: string; stroke: string; tab: string }[] = [
+  { id: 'master', label: 'RGB', stroke: '#e2e8f0', tab: 'bg-slate-600 text-white' },
+  { id: 'red', label: 'R', stroke: '#f87171', tab: 'bg-red-600 text-white' },
+  { id: 'green', label: 'G', stroke: '#4ade80', tab: 'bg-green-600 text-white' },
+  { id: 'blue', label: 'B', stroke: '#60a5fa', tab: 'bg-blue-600 text-white' },
+];
+
+// How close, in curve units, a click has to land to grab an existing point
+const GRAB_RADIUS = 10;
+
+/**
+ * Per-channel tone curves. Click to add a point, drag to move it, double-click to remove it.
+ * The end points stay at the left and right edges but can move up and down.
+ */
+export const CurvesEditor: React.FC<CurvesEditorProps> = ({ curves, onChange, onDragStart, onDragEnd }) => {
+  const [channel, setChannel] = useState<CurveChannel>('master');
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragIndex = useRef<number | null>(null);
+  const points = curves[channel];
+  const stroke = CHANNELS.find(c => c.id === channel)!.stroke;
+
+  const toCurve = (e: React.PointerEvent | React.MouseEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const clamp = (v: number) => Math.min(Math.max(Math.round(v), 0), 255);
+    return { x: clamp(((e.clientX - rect.left) / rect.width) * 255), y: clamp(255 - ((e.clientY - rect.top) / rect.height) * 255) };
+  };
+
+  const setPoints = (next: CurvePoint[], commit?: boolean) => onChange({ ...curves, [channel]: next }, commit);
+
+  const findPoint = (p: CurvePoint) => points.findIndex(q => Math.hypot(q.x - p.x, q.y - p.y) <= GRAB_RADIUS);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const p = toCurve(e);
+    let index = findPoint(p);
+    onDragStart();
+    if (index === -1) {
+      // Only between the end points, and not on top of another point's x
+      if (points.length >= MAX_CURVE_POINTS || points.some(q => q.x === p.x) || p.x <= points[0].x || p.x >= points[points.length - 1].x) {
+        onDragEnd();
+        return;
+      }
+      const next = [...points, p].sort((a, b) => a.x - b.x);
+      index = next.indexOf(p);
+      setPoints(next);
+    }
+    dragIndex.current = index;
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const index = dragIndex.current;
+    if (index === null) return;
+    const p = toCurve(e);
+    const isEnd = index === 0 || index === points.length - 1;
+    const x = isEnd ? points[index].x : Math.min(Math.max(p.x, points[index - 1].x + 1), points[index + 1].x - 1);
+    setPoints(points.map((q, i) => (i === index ? { x, y: p.y } : q)));
+  };
+
+  const handlePointerUp = () => {
+    if (dragIndex.current === null) return;
+    dragIndex.current = null;
+    onDragEnd();
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const index = findPoint(toCurve(e));
+    if (index > 0 && index < points.length - 1) setPoints(points.filter((_, i) => i !== index), true);
+  };
+
+  const samples = sampleCurve(points);
+  const path = Array.from(samples, (y, x) => `${x === 0 ? 'M' : 'L'}${x},${255 - y}`).join(' ');
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex gap-1 bg-slate-950/50 p-1 rounded-lg border border-white/5">
+          {CHANNELS.map(c => (
+            <button
+              key={c.id}
+              onClick={() => setChannel(c.id)}
+              className={`px-2 py-0.5 text-[10px] font-bold rounded-md transition-all ${channel === c.id ? c.tab : 'text-slate-400 hover:text-white'}`}
+            >
+              {c.label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setPoints(DEFAULT_EDITOR_PARAMS.curves[channel], true)}
+          className="text-[9px] text-blue-400 font-bold uppercase hover:text-blue-300"
+        >
+          Reset
+        </button>
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox="0 0 255 255"
+        className="w-full aspect-square bg-slate-950/60 rounded-lg border border-white/5 cursor-crosshair touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
+      >
+        {[64, 128, 191].map(v => (
+          <React.Fragment key={v}>
+            <line x1={v} y1={0} x2={v} y2={255} stroke="rgba(255,255,255,0.06)" />
+            <line x1={0} y1={v} x2={255} y2={v} stroke="rgba(255,255,255,0.06)" />
+          </React.Fragment>
+        ))}
+        <line x1={0} y1={255} x2={255} y2={0} stroke="rgba(255,255,255,0.12)" strokeDasharray="4 4" />
+        <path d={path} fill="none" stroke={stroke} strokeWidth={2} />
+        {points.map((p, i) => (
+          <circle key={i} cx={p.x} cy={255 - p.y} r={5} fill="#0f172a" stroke={stroke} strokeWidth={2} />
+        ))}
+      </svg>
+    </div>
+  );
+};
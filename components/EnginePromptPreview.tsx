@@ -0,0 +1,62 @@
+
+import React from 'react';
+import { PROMPT_PHRASEBOOKS } from '../constants';
+import { EnginePrompt, PromptFragmentSource } from '../types';
+
+interface EnginePromptPreviewProps {
+  enginePrompt: EnginePrompt;
+  phrasebook: string;
+  onPhrasebookChange: (id: string) => void;
+}
+
+const FRAGMENT_STYLES: Record<PromptFragmentSource, { label: string; className: string }> = {
+  prompt: { label: 'Prompt', className: 'text-slate-300' },
+  camAngle: { label: 'Camera Angle', className: 'text-sky-300 bg-sky-500/10' },
+  motionType: { label: 'Camera Motion', className: 'text-violet-300 bg-violet-500/10' },
+  atmosphere: { label: 'Atmosphere', className: 'text-amber-300 bg-amber-500/10' },
+  speed: { label: 'Speed', className: 'text-emerald-300 bg-emerald-500/10' },
+  tempo: { label: 'Tempo', className: 'text-pink-300 bg-pink-500/10' },
+  motionBlur: { label: 'Motion Blur', className: 'text-orange-300 bg-orange-500/10' },
+  stabilization: { label: 'Stabilization', className: 'text-teal-300 bg-teal-500/10' },
+};
+
+/**
+ * The prompt sent to Veo, with each sentence colored by the setting that produced it.
+ */
+export const EnginePromptPreview: React.FC<EnginePromptPreviewProps> = ({ enginePrompt, phrasebook, onPhrasebookChange }) => {
+  const sources = Array.from(new Set<PromptFragmentSource>(enginePrompt.fragments.map(f => f.source)));
+
+  return (
+    <div className="bg-slate-900/40 rounded-xl p-3 border border-white/5">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[10px] font-bold text-slate-600 uppercase tracking-widest">Synthesis Engine Prompt</span>
+        <div className="flex items-center gap-2">
+          <select
+            value={phrasebook}
+            onChange={(e) => onPhrasebookChange(e.target.value)}
+            className="bg-slate-950 border border-white/5 rounded-md px-1.5 py-0.5 text-[10px] text-slate-400 outline-none"
+            aria-label="Phrasebook"
+          >
+            {PROMPT_PHRASEBOOKS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <span className="text-[10px] text-slate-500 font-mono">VEO-3.1-FP</span>
+        </div>
+      </div>
+      <p className="text-[11px] font-medium leading-relaxed bg-slate-950/50 p-2 rounded-lg border border-white/5">
+        {enginePrompt.fragments.map((fragment, i) => (
+          <React.Fragment key={i}>
+            {i > 0 && ' '}
+            <span title={FRAGMENT_STYLES[fragment.source].label} className={`rounded px-0.5 ${FRAGMENT_STYLES[fragment.source].className}`}>{fragment.text}</span>
+          </React.Fragment>
+        ))}
+      </p>
+      {sources.length > 1 && (
+        <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2">
+          {sources.map(source => (
+            <span key={source} className={`text-[9px] font-bold uppercase tracking-widest ${FRAGMENT_STYLES[source].className.split(' ')[0]}`}>● {FRAGMENT_STYLES[source].label}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
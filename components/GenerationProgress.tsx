@@ -0,0 +1,50 @@
+
+import React, { useEffect, useState } from 'react';
+import { GenerationState } from '../types';
+
+interface GenerationProgressProps {
+  state: GenerationState;
+  onCancel?: () => void;
+}
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(Math.round(ms / 1000), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const GenerationProgress: React.FC<GenerationProgressProps> = ({ state, onCancel }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second so elapsed/remaining time stays live between polls
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const elapsed = state.startedAt ? now - state.startedAt : 0;
+  const remaining = state.estimatedMs ? state.estimatedMs - elapsed : undefined;
+  const liveProgress = state.estimatedMs ? Math.min((elapsed / state.estimatedMs) * 95, 95) : 0;
+  const progress = Math.max(state.progress, liveProgress);
+
+  return (
+    <div className="text-center p-8 w-full max-w-sm">
+      <div className="mb-6 relative h-2 bg-slate-900 rounded-full overflow-hidden">
+        <div className="absolute h-full bg-gradient-to-r from-blue-500 to-indigo-500 transition-all duration-500 shadow-[0_0_15px_rgba(99,102,241,0.5)]" style={{ width: `${progress}%` }}></div>
+      </div>
+      <p className="text-indigo-400 font-bold mb-3 uppercase tracking-widest text-xs">{state.status}</p>
+      <div className="flex justify-center gap-6 text-[10px] font-mono text-slate-500 mb-6">
+        <span>Elapsed {formatDuration(elapsed)}</span>
+        {remaining !== undefined && (
+          <span>{remaining > 0 ? `~${formatDuration(remaining)} remaining` : 'Taking longer than usual'}</span>
+        )}
+      </div>
+      {onCancel && (
+        <button onClick={onCancel} className="px-4 py-2 rounded-full text-[10px] font-bold uppercase border border-red-500/40 text-red-300 hover:bg-red-600/20 transition-all">
+          Cancel Render
+        </button>
+      )}
+    </div>
+  );
+};
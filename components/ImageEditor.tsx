@@ -1,51 +1,84 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-
-interface EditorParams {
-  brightness: number;
-  contrast: number;
-  saturation: number;
-  hue: number;
-  vignette: number;
-  grayscale: boolean;
-  sepia: boolean;
-  rotation: number; // Z-axis
-  rotateX: number;
-  rotateY: number;
-  perspective: number;
-  cameraShake: number;
-}
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { DEFAULT_EDITOR_PARAMS, MAX_CROP_ZOOM, RESAMPLING_QUALITIES } from '../constants';
+import { CubeLut, EditorParams, FrameCrop, FrameEdit, LevelsAdjustment, MatchCurves } from '../types';
+import { applyMatchCurves, computeHistogram, Histogram, LutParseError, matchCurves, parseCubeLut } from '../utils/colorGrade';
+import { clampCrop, getCropRect, getRotatedBounds, renderFrame } from '../utils/frameRender';
+import { loadImage } from '../utils/media';
+import { ColorHistogram } from './ColorHistogram';
+import { CurvesEditor } from './CurvesEditor';
+
+// The preview is rendered no larger than this on its longer side, to keep slider drags smooth
+const PREVIEW_MAX_SIZE = 1280;
+
+// Frames are measured for grade matching at no more than this on their longer side; the histogram barely changes
+const MATCH_MAX_SIZE = 512;
+
+// Broadcast safe areas (EBU R 95), as insets from each edge of the frame
+const SAFE_AREAS = [
+  { label: 'Action Safe', inset: 0.035 },
+  { label: 'Title Safe', inset: 0.05 },
+];
+
+// A wheel gesture counts as one undo step once it has been idle this long
+const WHEEL_GESTURE_MS = 300;
+
+const LEVELS_SLIDERS: { key: keyof LevelsAdjustment; label: string; min: number; max: number; step: number }[] = [
+  { key: 'inputBlack', label: 'Input Black', min: 0, max: 254, step: 1 },
+  { key: 'inputWhite', label: 'Input White', min: 1, max: 255, step: 1 },
+  { key: 'gamma', label: 'Gamma', min: 0.1, max: 3, step: 0.01 },
+  { key: 'outputBlack', label: 'Output Black', min: 0, max: 255, step: 1 },
+  { key: 'outputWhite', label: 'Output White', min: 0, max: 255, step: 1 },
+];
+
+/**
+ * Histogram of a frame as it leaves the curves, i.e. with everything but its 3D LUT, since
+ * that is where match curves are applied. The LUT then goes on top of the matched grade.
+ */
+const measureBeforeLut = (image: HTMLImageElement, params: EditorParams, aspectRatio: '16:9' | '9:16') => {
+  const canvas = document.createElement('canvas');
+  const scale = Math.min(1, MATCH_MAX_SIZE / Math.max(image.width, image.height));
+  renderFrame(canvas, image, { ...params, lut: null }, aspectRatio, { scale, quality: 'bilinear' });
+  return computeHistogram(canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height));
+};
+
+const createLutId = () => `lut-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
 
 interface ImageEditorProps {
-  image: string;
-  onSave: (processedImage: string) => void;
+  image: string; // the unedited original
+  initialParams?: EditorParams;
+  initialHistory?: EditorParams[];
+  initialLuts?: Record<string, CubeLut>;
+  matchReference?: { label: string; image: string; edit?: FrameEdit | null }; // the other keyframe, as saved
+  // `counterpart` is set when the grade met the reference halfway: curves for the reference's side
+  onSave: (processedImage: string, edit: { params: EditorParams; history: EditorParams[]; luts: Record<string, CubeLut>; counterpart?: MatchCurves }) => void;
   onCancel: () => void;
   aspectRatio: '16:9' | '9:16';
 }
 
-export const ImageEditor: React.FC<ImageEditorProps> = ({ image, onSave, onCancel, aspectRatio }) => {
-  const [params, setParams] = useState<EditorParams>({
-    brightness: 100,
-    contrast: 100,
-    saturation: 100,
-    hue: 0,
-    vignette: 0,
-    grayscale: false,
-    sepia: false,
-    rotation: 0,
-    rotateX: 0,
-    rotateY: 0,
-    perspective: 1000,
-    cameraShake: 0,
-  });
+export const ImageEditor: React.FC<ImageEditorProps> = ({ image, initialParams, initialHistory, initialLuts, matchReference, onSave, onCancel, aspectRatio }) => {
+  const [params, setParams] = useState<EditorParams>(initialParams ?? DEFAULT_EDITOR_PARAMS);
+  const [sourceImage, setSourceImage] = useState<HTMLImageElement | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showThirds, setShowThirds] = useState(true);
+  const [showSafeArea, setShowSafeArea] = useState(false);
+  const [luts, setLuts] = useState<Record<string, CubeLut>>(initialLuts ?? {});
+  const [lutError, setLutError] = useState<string | null>(null);
+  const [histogram, setHistogram] = useState<Histogram | null>(null);
+  const [referenceHistogram, setReferenceHistogram] = useState<Histogram | null>(null);
+  const [halfway, setHalfway] = useState<{ curves: EditorParams['curves']; counterpart: MatchCurves } | null>(null);
+  const [canvasBox, setCanvasBox] = useState<{ left: number; top: number; width: number; height: number } | null>(null);
 
   // History stacks
-  const [history, setHistory] = useState<EditorParams[]>([]);
+  const [history, setHistory] = useState<EditorParams[]>(initialHistory ?? []);
   const [future, setFuture] = useState<EditorParams[]>([]);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const containerRef = useRef<HTMLDivElement>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+  const lutInputRef = useRef<HTMLInputElement>(null);
   const shakeFrameRef = useRef<number>(0);
+  const paramsRef = useRef(params);
+  paramsRef.current = params;
 
   // Helper to update params and manage history
   const updateParams = (newParams: Partial<EditorParams>, commit: boolean = false) => {
@@ -112,67 +145,63 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ image, onSave, onCance
   }, [params.cameraShake]);
 
   useEffect(() => {
-    applyChanges();
-  }, [params]);
+    let cancelled = false;
+    loadImage(image).then((img) => {
+      if (!cancelled) setSourceImage(img);
+    }, () => undefined);
+    return () => { cancelled = true; };
+  }, [image]);
+
+  // An edited reference is re-rendered from its original without its LUT. An unedited one goes
+  // through the same render at the default params, so both frames are measured with the same crop.
+  const referenceImage = matchReference?.image;
+  const referenceEdit = matchReference?.edit;
+  useEffect(() => {
+    setReferenceHistogram(null);
+    if (!referenceImage) return;
+    let cancelled = false;
+    loadImage(referenceEdit?.original ?? referenceImage).then((img) => {
+      if (!cancelled) setReferenceHistogram(measureBeforeLut(img, referenceEdit?.params ?? DEFAULT_EDITOR_PARAMS, aspectRatio));
+    }, () => undefined);
+    return () => { cancelled = true; };
+  }, [referenceImage, referenceEdit, aspectRatio]);
+
+  const [isDragging, setIsDragging] = useState(false);
+  const dragStartParams = useRef<EditorParams | null>(null);
+
+  const activeLut = params.lut ? luts[params.lut.id] : undefined;
 
-  const applyChanges = () => {
+  // The preview is a scaled-down render of the whole image; the crop overlay marks the saved frame
+  useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-    img.src = image;
-    img.onload = () => {
-      // Basic dimensions for the 2D canvas buffer
-      canvas.width = img.width;
-      canvas.height = img.height;
-
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      
-      let filters = `brightness(${params.brightness}%) contrast(${params.contrast}%) saturate(${params.saturation}%) hue-rotate(${params.hue}deg)`;
-      if (params.grayscale) filters += ' grayscale(100%)';
-      if (params.sepia) filters += ' sepia(100%)';
-      ctx.filter = filters;
-
-      // We only draw the image with filters here. 
-      // 3D rotation and Shake are applied via CSS/Styles to the canvas element for real-time high-quality preview.
-      ctx.drawImage(img, 0, 0);
-
-      ctx.filter = 'none';
-
-      if (params.vignette !== 0) {
-        const centerX = canvas.width / 2;
-        const centerY = canvas.height / 2;
-        const outerRadius = Math.sqrt(Math.pow(centerX, 2) + Math.pow(centerY, 2));
-        
-        const gradient = ctx.createRadialGradient(
-          centerX, centerY, 0,
-          centerX, centerY, outerRadius
-        );
-
-        const color = params.vignette > 0 ? '0, 0, 0' : '255, 255, 255';
-        const opacity = Math.abs(params.vignette) / 100;
-
-        gradient.addColorStop(0.4, `rgba(${color}, 0)`);
-        gradient.addColorStop(1, `rgba(${color}, ${opacity})`);
-
-        ctx.fillStyle = gradient;
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-      }
+    if (!canvas || !sourceImage) return;
+    const scale = Math.min(1, PREVIEW_MAX_SIZE / Math.max(sourceImage.width, sourceImage.height));
+    // Bicubic is too slow to follow a slider; the geometry is the same either way
+    const quality = isDragging && params.resampling === 'bicubic' ? 'bilinear' : params.resampling;
+    const frame = renderFrame(canvas, sourceImage, params, aspectRatio, { scale, quality, uncropped: true, lut: activeLut });
+    const ctx = canvas.getContext('2d')!;
+    setHistogram(computeHistogram(ctx.getImageData(Math.round(frame.left), Math.round(frame.top), Math.max(1, Math.round(frame.width)), Math.max(1, Math.round(frame.height)))));
+  }, [params, sourceImage, aspectRatio, isDragging, activeLut]);
+
+  // Keep the overlay over the canvas as the layout changes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !previewRef.current) return;
+    const measure = () => setCanvasBox({ left: canvas.offsetLeft, top: canvas.offsetTop, width: canvas.offsetWidth, height: canvas.offsetHeight });
+    const observer = new ResizeObserver(measure);
+    observer.observe(canvas);
+    observer.observe(previewRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  const bounds = useMemo(
+    () => sourceImage ? getRotatedBounds(sourceImage.width, sourceImage.height, params.rotation) : null,
+    [sourceImage, params.rotation]
+  );
+  const cropRect = bounds ? getCropRect(bounds, params.crop, aspectRatio) : null;
 
-      // Apply 3D rotation to the canvas element itself for preview
-      if (canvas) {
-        canvas.style.transform = `rotateX(${params.rotateX}deg) rotateY(${params.rotateY}deg) rotateZ(${params.rotation}deg)`;
-        canvas.style.transition = isDragging ? 'none' : 'transform 0.2s ease-out';
-      }
-      
-      // Apply perspective to parent container
-      if (containerRef.current) {
-        containerRef.current.style.perspective = `${params.perspective}px`;
-      }
-    };
+  const setCrop = (crop: FrameCrop, commit: boolean = false) => {
+    if (bounds) updateParams({ crop: clampCrop(bounds, crop, aspectRatio) }, commit);
   };
 
   const handleRotateZ = () => {
@@ -184,69 +213,127 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ image, onSave, onCance
       rotateX: 0,
       rotateY: 0,
       rotation: 0,
-      perspective: 1000
+      perspective: DEFAULT_EDITOR_PARAMS.perspective
     }, true);
   };
 
-  const handleSave = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
-    const finalCanvas = document.createElement('canvas');
-    const [wRatio, hRatio] = aspectRatio === '16:9' ? [16, 9] : [9, 16];
-    
-    const isVertical = (params.rotation / 90) % 2 !== 0;
-    const baseW = isVertical ? canvas.height : canvas.width;
-    const baseH = isVertical ? canvas.width : canvas.height;
-
-    let finalWidth = baseW;
-    let finalHeight = (baseW * hRatio) / wRatio;
-
-    if (finalHeight > baseH) {
-      finalHeight = baseH;
-      finalWidth = (baseH * wRatio) / hRatio;
-    }
-
-    finalCanvas.width = finalWidth;
-    finalCanvas.height = finalHeight;
-    const fCtx = finalCanvas.getContext('2d');
-    
-    if (fCtx) {
-      fCtx.save();
-      fCtx.translate(finalWidth / 2, finalHeight / 2);
-      fCtx.rotate((params.rotation * Math.PI) / 180);
-      
-      // Draw the original image with its processed filters
-      fCtx.drawImage(
-        canvas,
-        -canvas.width / 2,
-        -canvas.height / 2
-      );
-      fCtx.restore();
-      
-      onSave(finalCanvas.toDataURL('image/png'));
-    }
+  // The halfway grade only reaches the other frame while this frame's match is still in its stack
+  const pendingHalfway = halfway && [...history, params].some(p => p.curves === halfway.curves) ? halfway : null;
+
+  /**
+   * Matches this frame's color distribution to the reference frame's, or moves both halfway.
+   * The match is added to the red, green and blue curves, where it can be edited or undone.
+   * Both frames are compared before their LUTs, as that is where the curves apply.
+   */
+  const handleMatchGrade = (meetHalfway: boolean) => {
+    if (!sourceImage || !referenceHistogram) return;
+    const measured = measureBeforeLut(sourceImage, params, aspectRatio);
+    const result = applyMatchCurves(params, matchCurves(measured, referenceHistogram, meetHalfway ? 0.5 : 1));
+    setHistory((prev) => [...prev, params]);
+    setFuture([]);
+    setParams(result);
+    setHalfway(meetHalfway ? { curves: result.curves, counterpart: matchCurves(referenceHistogram, measured, 0.5) } : null);
   };
 
-  const [isDragging, setIsDragging] = useState(false);
-  const dragStartParams = useRef<EditorParams | null>(null);
+  const handleSave = () => {
+    if (!sourceImage || isSaving) return;
+    setIsSaving(true);
+    // Let the button show its busy state before the full-resolution warp blocks the thread
+    setTimeout(() => {
+      const finalCanvas = document.createElement('canvas');
+      renderFrame(finalCanvas, sourceImage, params, aspectRatio, { lut: activeLut });
+      // Keep only the LUTs that the saved params or the undo history still use
+      const used = new Set([params, ...history].map(p => p.lut?.id));
+      setIsSaving(false);
+      onSave(finalCanvas.toDataURL('image/png'), {
+        params,
+        history,
+        luts: Object.fromEntries(Object.entries(luts).filter(([id]) => used.has(id))),
+        counterpart: pendingHalfway?.counterpart
+      });
+    }, 0);
+  };
 
+  // These read paramsRef so the wheel handler, registered once, can use them too
   const handleSliderStart = () => {
     setIsDragging(true);
-    dragStartParams.current = { ...params };
+    dragStartParams.current = { ...paramsRef.current };
   };
 
   const handleSliderEnd = () => {
     setIsDragging(false);
     if (dragStartParams.current) {
-      const hasChanged = JSON.stringify(dragStartParams.current) !== JSON.stringify(params);
+      const start = dragStartParams.current;
+      const hasChanged = JSON.stringify(start) !== JSON.stringify(paramsRef.current);
       if (hasChanged) {
-        setHistory((prev) => [...prev, dragStartParams.current!]);
+        setHistory((prev) => [...prev, start]);
         setFuture([]);
       }
+      dragStartParams.current = null;
+    }
+  };
+
+  const handleLutImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const lut = parseCubeLut(await file.text(), file.name.replace(/\.cube$/i, ''));
+      const id = createLutId();
+      setLuts(prev => ({ ...prev, [id]: lut }));
+      updateParams({ lut: { id, name: lut.title, intensity: 1 } }, true);
+      setLutError(null);
+    } catch (err) {
+      setLutError(err instanceof LutParseError ? err.message : `Could not read ${file.name}.`);
     }
   };
 
+  const panStart = useRef<{ clientX: number; clientY: number; crop: FrameCrop } | null>(null);
+
+  const handlePanStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    panStart.current = { clientX: e.clientX, clientY: e.clientY, crop: params.crop };
+    handleSliderStart();
+  };
+
+  const handlePanMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = panStart.current;
+    if (!start || !canvasBox) return;
+    setCrop({
+      ...start.crop,
+      x: start.crop.x + (e.clientX - start.clientX) / canvasBox.width,
+      y: start.crop.y + (e.clientY - start.clientY) / canvasBox.height
+    });
+  };
+
+  const handlePanEnd = () => {
+    if (!panStart.current) return;
+    panStart.current = null;
+    handleSliderEnd();
+  };
+
+  // Scroll to zoom the crop about its center. React's wheel listener is passive, so this
+  // one is attached by hand to stop the page behind the editor from scrolling.
+  const wheelTimer = useRef<number | undefined>(undefined);
+  useEffect(() => {
+    const preview = previewRef.current;
+    if (!preview || !bounds) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      if (wheelTimer.current === undefined) handleSliderStart();
+      window.clearTimeout(wheelTimer.current);
+      const { crop } = paramsRef.current;
+      const zoom = Math.min(Math.max(crop.zoom * Math.exp(-e.deltaY * 0.0015), 1), MAX_CROP_ZOOM);
+      setParams((prev) => ({ ...prev, crop: clampCrop(bounds, { ...crop, zoom }, aspectRatio) }));
+      wheelTimer.current = window.setTimeout(() => {
+        wheelTimer.current = undefined;
+        handleSliderEnd();
+      }, WHEEL_GESTURE_MS);
+    };
+    preview.addEventListener('wheel', handleWheel, { passive: false });
+    return () => preview.removeEventListener('wheel', handleWheel);
+  }, [bounds, aspectRatio]);
+
   return (
     <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/90 backdrop-blur-md p-4 md:p-8">
       <div className="glass-panel w-full max-w-6xl h-full max-h-[95vh] rounded-3xl overflow-hidden flex flex-col border border-white/10 shadow-2xl">
@@ -289,19 +376,53 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ image, onSave, onCance
         </div>
 
         <div className="flex-grow flex flex-col lg:flex-row overflow-hidden">
-          <div 
-            ref={containerRef}
-            className="flex-grow bg-black/60 p-12 flex items-center justify-center overflow-hidden"
-            style={{ perspective: '1000px' }}
-          >
+          <div ref={previewRef} className="relative flex-grow bg-black/60 p-12 flex items-center justify-center overflow-hidden">
             <canvas 
               ref={canvasRef} 
               className="max-w-full max-h-full object-contain shadow-[0_20px_50px_rgba(0,0,0,0.8)] rounded-sm"
-              style={{ transformStyle: 'preserve-3d', position: 'relative' }}
+              style={{ position: 'relative' }}
             />
+            {canvasBox && bounds && cropRect && (
+              <div className="absolute overflow-hidden pointer-events-none" style={canvasBox}>
+                <div
+                  onPointerDown={handlePanStart}
+                  onPointerMove={handlePanMove}
+                  onPointerUp={handlePanEnd}
+                  onPointerCancel={handlePanEnd}
+                  className="absolute border border-white/80 cursor-move pointer-events-auto touch-none"
+                  style={{
+                    left: `${(cropRect.left / bounds.width) * 100}%`,
+                    top: `${(cropRect.top / bounds.height) * 100}%`,
+                    width: `${(cropRect.width / bounds.width) * 100}%`,
+                    height: `${(cropRect.height / bounds.height) * 100}%`,
+                    boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)'
+                  }}
+                  title="Drag to pan, scroll to zoom"
+                >
+                  {showThirds && (
+                    <>
+                      <div className="absolute inset-y-0 left-1/3 border-l border-white/30" />
+                      <div className="absolute inset-y-0 left-2/3 border-l border-white/30" />
+                      <div className="absolute inset-x-0 top-1/3 border-t border-white/30" />
+                      <div className="absolute inset-x-0 top-2/3 border-t border-white/30" />
+                    </>
+                  )}
+                  {showSafeArea && SAFE_AREAS.map(area => (
+                    <div key={area.label} className="absolute border border-dashed border-amber-300/60" style={{ inset: `${area.inset * 100}%` }}>
+                      <span className="absolute top-0.5 left-1 text-[8px] font-bold uppercase tracking-widest text-amber-200/70">{area.label}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
 
           <div className="w-full lg:w-80 bg-slate-900/90 border-l border-white/5 p-6 flex flex-col gap-6 overflow-y-auto custom-scrollbar">
+            <section>
+              <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">Histogram</h4>
+              <ColorHistogram histogram={histogram} />
+            </section>
+
             <section>
               <div className="flex justify-between items-center mb-4">
                 <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">3D Transformation</h4>
@@ -365,6 +486,65 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ image, onSave, onCance
                     className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
                   />
                 </div>
+
+                <div className="space-y-2">
+                  <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Resampling</div>
+                  <div className="grid grid-cols-3 gap-1 bg-slate-950/50 p-1 rounded-xl border border-white/5">
+                    {RESAMPLING_QUALITIES.map(q => (
+                      <button
+                        key={q.id}
+                        onClick={() => params.resampling !== q.id && updateParams({ resampling: q.id }, true)}
+                        className={`py-1.5 text-[10px] font-bold rounded-lg transition-all ${params.resampling === q.id ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                      >
+                        {q.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </section>
+
+            <section>
+              <div className="flex justify-between items-center mb-4">
+                <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Framing ({aspectRatio})</h4>
+                <button
+                  onClick={() => updateParams({ crop: DEFAULT_EDITOR_PARAMS.crop }, true)}
+                  className="text-[9px] text-blue-400 font-bold uppercase hover:text-blue-300"
+                >
+                  Reset Framing
+                </button>
+              </div>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                    <span>Zoom</span>
+                    <span className="text-blue-400">{params.crop.zoom.toFixed(2)}×</span>
+                  </div>
+                  <input 
+                    type="range" min="1" max={MAX_CROP_ZOOM} step="0.01" value={params.crop.zoom} 
+                    onMouseDown={handleSliderStart}
+                    onMouseUp={handleSliderEnd}
+                    onTouchStart={handleSliderStart}
+                    onTouchEnd={handleSliderEnd}
+                    onChange={(e) => setCrop({ ...params.crop, zoom: parseFloat(e.target.value) })}
+                    className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setShowThirds(!showThirds)}
+                    className={`flex-1 py-1.5 text-[10px] font-bold rounded-lg border transition-all ${showThirds ? 'bg-blue-600/20 border-blue-500/50 text-blue-300' : 'bg-slate-800 border-white/5 text-slate-400'}`}
+                  >
+                    Thirds
+                  </button>
+                  <button
+                    onClick={() => setShowSafeArea(!showSafeArea)}
+                    className={`flex-1 py-1.5 text-[10px] font-bold rounded-lg border transition-all ${showSafeArea ? 'bg-amber-600/20 border-amber-500/50 text-amber-300' : 'bg-slate-800 border-white/5 text-slate-400'}`}
+                  >
+                    Safe Area
+                  </button>
+                </div>
+                <p className="text-[10px] text-slate-500">Drag the frame to pan, scroll over the preview to zoom.</p>
               </div>
             </section>
 
@@ -434,6 +614,157 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ image, onSave, onCance
               </div>
             </section>
 
+            <section>
+              <div className="flex justify-between items-center mb-4">
+                <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Color Grading</h4>
+                <button
+                  onClick={() => updateParams({
+                    temperature: 0,
+                    tint: 0,
+                    levels: DEFAULT_EDITOR_PARAMS.levels,
+                    curves: DEFAULT_EDITOR_PARAMS.curves,
+                    lut: null
+                  }, true)}
+                  className="text-[9px] text-blue-400 font-bold uppercase hover:text-blue-300"
+                >
+                  Reset Grade
+                </button>
+              </div>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                    <span>Temperature</span>
+                    <span className="text-amber-400">{params.temperature > 0 ? '+' : ''}{params.temperature}</span>
+                  </div>
+                  <input 
+                    type="range" min="-100" max="100" value={params.temperature} 
+                    onMouseDown={handleSliderStart}
+                    onMouseUp={handleSliderEnd}
+                    onTouchStart={handleSliderStart}
+                    onTouchEnd={handleSliderEnd}
+                    onChange={(e) => updateParams({ temperature: parseInt(e.target.value) })}
+                    className="w-full h-1 bg-gradient-to-r from-sky-700 to-amber-600 rounded-lg appearance-none cursor-pointer accent-amber-400"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                    <span>Tint</span>
+                    <span className="text-fuchsia-400">{params.tint > 0 ? '+' : ''}{params.tint}</span>
+                  </div>
+                  <input 
+                    type="range" min="-100" max="100" value={params.tint} 
+                    onMouseDown={handleSliderStart}
+                    onMouseUp={handleSliderEnd}
+                    onTouchStart={handleSliderStart}
+                    onTouchEnd={handleSliderEnd}
+                    onChange={(e) => updateParams({ tint: parseInt(e.target.value) })}
+                    className="w-full h-1 bg-gradient-to-r from-green-700 to-fuchsia-600 rounded-lg appearance-none cursor-pointer accent-fuchsia-400"
+                  />
+                </div>
+
+                <div className="pt-2 space-y-3">
+                  <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Levels</div>
+                  {LEVELS_SLIDERS.map(slider => (
+                    <div key={slider.key} className="space-y-1">
+                      <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                        <span>{slider.label}</span>
+                        <span className="text-slate-400">{slider.key === 'gamma' ? params.levels.gamma.toFixed(2) : params.levels[slider.key]}</span>
+                      </div>
+                      <input 
+                        type="range" min={slider.min} max={slider.max} step={slider.step} value={params.levels[slider.key]} 
+                        onMouseDown={handleSliderStart}
+                        onMouseUp={handleSliderEnd}
+                        onTouchStart={handleSliderStart}
+                        onTouchEnd={handleSliderEnd}
+                        onChange={(e) => {
+                          const levels = { ...params.levels, [slider.key]: parseFloat(e.target.value) };
+                          // Input black and white can't cross
+                          if (levels.inputBlack >= levels.inputWhite) return;
+                          updateParams({ levels });
+                        }}
+                        className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-slate-300"
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <div className="pt-2 space-y-2">
+                  <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Curves</div>
+                  <CurvesEditor
+                    curves={params.curves}
+                    onChange={(curves, commit) => updateParams({ curves }, commit)}
+                    onDragStart={handleSliderStart}
+                    onDragEnd={handleSliderEnd}
+                  />
+                </div>
+
+                <div className="pt-2 space-y-2">
+                  <div className="flex justify-between items-center">
+                    <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">3D LUT</span>
+                    <button onClick={() => lutInputRef.current?.click()} className="text-[9px] text-blue-400 font-bold uppercase hover:text-blue-300">Import .cube</button>
+                  </div>
+                  <input ref={lutInputRef} type="file" className="hidden" accept=".cube" onChange={handleLutImport} />
+                  {params.lut && activeLut ? (
+                    <>
+                      <div className="flex items-center justify-between bg-slate-950/50 px-3 py-2 rounded-lg border border-white/5">
+                        <span className="text-xs text-slate-300 truncate" title={params.lut.name}>{params.lut.name} <span className="text-slate-500">({activeLut.size}³)</span></span>
+                        <button onClick={() => updateParams({ lut: null }, true)} className="text-[9px] text-red-400 font-bold uppercase hover:text-red-300 ml-2">Remove</button>
+                      </div>
+                      <div className="space-y-1">
+                        <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                          <span>Intensity</span>
+                          <span className="text-slate-400">{Math.round(params.lut.intensity * 100)}%</span>
+                        </div>
+                        <input 
+                          type="range" min="0" max="100" value={Math.round(params.lut.intensity * 100)} 
+                          onMouseDown={handleSliderStart}
+                          onMouseUp={handleSliderEnd}
+                          onTouchStart={handleSliderStart}
+                          onTouchEnd={handleSliderEnd}
+                          onChange={(e) => updateParams({ lut: { ...params.lut!, intensity: parseInt(e.target.value) / 100 } })}
+                          className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                        />
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-[10px] text-slate-500">No LUT applied.</p>
+                  )}
+                  {lutError && <p className="text-[10px] text-red-400">{lutError}</p>}
+                </div>
+              </div>
+            </section>
+
+            {matchReference && (
+              <section>
+                <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">Match Grade</h4>
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={() => handleMatchGrade(false)}
+                      disabled={!sourceImage || !referenceHistogram}
+                      className="py-2 text-[10px] font-bold uppercase rounded-lg bg-slate-800 border border-white/5 text-slate-300 hover:bg-slate-700 disabled:opacity-40 transition-all"
+                    >
+                      Match to {matchReference.label}
+                    </button>
+                    <button
+                      onClick={() => handleMatchGrade(true)}
+                      disabled={!sourceImage || !referenceHistogram}
+                      className="py-2 text-[10px] font-bold uppercase rounded-lg bg-slate-800 border border-white/5 text-slate-300 hover:bg-slate-700 disabled:opacity-40 transition-all"
+                    >
+                      Meet Halfway
+                    </button>
+                  </div>
+                  <p className="text-[10px] text-slate-500">Adds the match as points on the R, G and B curves, which you can fine-tune or undo. Frames are compared without their 3D LUTs, which are applied on top of the match.</p>
+                  {pendingHalfway && (
+                    <div className="flex items-center justify-between bg-slate-950/50 px-3 py-2 rounded-lg border border-white/5">
+                      <span className="text-[10px] text-slate-300">The {matchReference.label} will move halfway too when you apply.</span>
+                      <button onClick={() => setHalfway(null)} className="text-[9px] text-red-400 font-bold uppercase hover:text-red-300 ml-2">Skip</button>
+                    </div>
+                  )}
+                </div>
+              </section>
+            )}
+
             <section>
               <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">Special Effects</h4>
               <div className="space-y-4">
@@ -502,9 +833,10 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ image, onSave, onCance
               </button>
               <button 
                 onClick={handleSave}
-                className="flex-grow py-3 px-4 bg-blue-600 hover:bg-blue-500 text-xs font-bold rounded-xl shadow-lg shadow-blue-900/40 transition-all text-white"
+                disabled={!sourceImage || isSaving}
+                className="flex-grow py-3 px-4 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-xs font-bold rounded-xl shadow-lg shadow-blue-900/40 transition-all text-white"
               >
-                Apply Changes
+                {isSaving ? 'Rendering…' : 'Apply Changes'}
               </button>
             </div>
           </div>
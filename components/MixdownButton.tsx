@@ -0,0 +1,74 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { SoundtrackMix } from '../services/audioEngine';
+import { classifyError } from '../services/errors';
+import { exportSequence } from '../services/sequenceExport';
+import { AspectRatio, Resolution } from '../types';
+import { fileExtensionFor } from '../utils/media';
+
+interface MixdownButtonProps {
+  videoUrl: string;
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  soundtrack: SoundtrackMix;
+  fileName: string;
+}
+
+const triggerDownload = (url: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+};
+
+/**
+ * Re-records a clip with the selected music and SFX mixed into its audio track, then downloads it.
+ */
+export const MixdownButton: React.FC<MixdownButtonProps> = ({ videoUrl, aspectRatio, resolution, soundtrack, fileName }) => {
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleMixdown = async () => {
+    if (abortRef.current) {
+      abortRef.current.abort();
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+    try {
+      const mixed = await exportSequence([videoUrl], {
+        aspectRatio,
+        resolution,
+        format: 'mp4',
+        crossfadeMs: 0,
+        soundtrack,
+        onProgress: setProgress,
+        signal: controller.signal
+      });
+      const url = URL.createObjectURL(mixed.blob);
+      triggerDownload(url, `${fileName}.${fileExtensionFor(mixed.mimeType)}`);
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (err) {
+      const classified = classifyError(err);
+      if (classified.code !== 'cancelled') setError(classified.message);
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleMixdown}
+      title={error ?? "Download with the selected music and SFX mixed in"}
+      className={`text-[10px] px-4 py-2 rounded-full transition-colors flex items-center gap-1.5 font-bold uppercase shadow-lg ${error ? 'bg-red-600/20 border border-red-500/40 text-red-300' : 'bg-indigo-600 text-white hover:bg-indigo-500 shadow-indigo-900/40'}`}
+    >
+      {progress !== null ? `Mixing ${Math.round(progress * 100)}% • Cancel` : error ? 'Mix Failed • Retry' : 'Download with Audio'}
+    </button>
+  );
+};
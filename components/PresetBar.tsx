@@ -0,0 +1,121 @@
+
+import React, { useRef, useState } from 'react';
+import { PRESETS } from '../constants';
+import { createPresetPack } from '../services/presetStore';
+import { CustomPreset } from '../types';
+
+interface PresetBarProps {
+  showBuiltIns: boolean;
+  activePreset: string;
+  onApplyBuiltIn: (preset: typeof PRESETS[0]) => void;
+  customPresets: CustomPreset[];
+  onApplyCustom: (preset: CustomPreset) => void;
+  onSaveCurrent: (name: string, icon: string, category: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => Promise<number>;
+}
+
+const PRESET_ICONS = ['⭐', '🎬', '🎥', '🌅', '🌃', '🔥', '🌊', '🚀', '🎨', '🧊', '🌸', '⚙️'];
+const BUILT_IN_TAB = 'Built-in';
+const DEFAULT_CATEGORY = 'My Presets';
+
+export const PresetBar: React.FC<PresetBarProps> = ({
+  showBuiltIns, activePreset, onApplyBuiltIn, customPresets, onApplyCustom, onSaveCurrent, onDelete, onImport
+}) => {
+  const [tab, setTab] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [draft, setDraft] = useState({ name: '', icon: PRESET_ICONS[0], category: DEFAULT_CATEGORY });
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const categories = Array.from(new Set(customPresets.map(p => p.category))).sort();
+  const tabs = [...(showBuiltIns ? [BUILT_IN_TAB] : []), ...categories];
+  const activeTab = tab && tabs.includes(tab) ? tab : null;
+  const visibleCustom = customPresets.filter(p => !activeTab || p.category === activeTab);
+
+  const handleSave = () => {
+    if (!draft.name.trim()) return;
+    onSaveCurrent(draft.name.trim(), draft.icon, draft.category.trim() || DEFAULT_CATEGORY);
+    setIsSaving(false);
+    setDraft(d => ({ ...d, name: '' }));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = await onImport(file);
+      setNotice({ text: `Imported ${count} ${count === 1 ? 'preset' : 'presets'}.`, isError: false });
+    } catch (err) {
+      setNotice({ text: err instanceof Error ? err.message : String(err), isError: true });
+    }
+  };
+
+  const handleExport = () => {
+    const scope = activeTab && activeTab !== BUILT_IN_TAB ? activeTab : null;
+    const presets = scope ? customPresets.filter(p => p.category === scope) : customPresets;
+    const pack = createPresetPack(scope ?? 'All Presets', presets);
+    const url = URL.createObjectURL(new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(scope ?? 'presets').replace(/[^\w-]+/g, '-').toLowerCase()}.presets.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const tabClass = (selected: boolean) => `px-3 py-1 rounded-full text-[9px] font-bold uppercase tracking-widest transition-all ${selected ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`;
+
+  return (
+    <div className="space-y-3 mb-2">
+      {tabs.length > 1 && (
+        <div className="flex flex-wrap gap-1">
+          <button onClick={() => setTab(null)} className={tabClass(activeTab === null)}>All</button>
+          {tabs.map(t => <button key={t} onClick={() => setTab(t)} className={tabClass(activeTab === t)}>{t}</button>)}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {showBuiltIns && (!activeTab || activeTab === BUILT_IN_TAB) && PRESETS.map((p) => (
+          <button key={p.id} onClick={() => onApplyBuiltIn(p)} className={`px-4 py-2 rounded-full text-xs font-bold transition-all flex items-center gap-2 border ${activePreset === p.id ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg' : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'}`}>
+            <span>{p.icon}</span>{p.name}
+          </button>
+        ))}
+        {activeTab !== BUILT_IN_TAB && visibleCustom.map((p) => (
+          <div key={p.id} className="relative group">
+            <button onClick={() => onApplyCustom(p)} title={p.settings.prompt} className={`px-4 py-2 rounded-full text-xs font-bold transition-all flex items-center gap-2 border ${activePreset === p.id ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg' : 'bg-slate-800 border-dashed border-slate-600 text-slate-300 hover:border-slate-400'}`}>
+              <span>{p.icon}</span>{p.name}
+            </button>
+            <button onClick={() => onDelete(p.id)} title="Delete preset" className="absolute -top-1 -right-1 w-4 h-4 rounded-full bg-red-600 text-white text-[8px] font-bold hidden group-hover:flex items-center justify-center">✕</button>
+          </div>
+        ))}
+      </div>
+
+      {isSaving ? (
+        <div className="flex flex-wrap items-center gap-2 p-3 bg-slate-950/80 rounded-xl border border-white/5">
+          <select value={draft.icon} onChange={(e) => setDraft(d => ({ ...d, icon: e.target.value }))} className="bg-slate-900 border border-white/5 rounded-lg p-1.5 text-sm">
+            {PRESET_ICONS.map(icon => <option key={icon} value={icon}>{icon}</option>)}
+          </select>
+          <input autoFocus value={draft.name} onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))} onKeyDown={(e) => e.key === 'Enter' && handleSave()} placeholder="Preset name" className="flex-grow min-w-[8rem] bg-slate-900 border border-white/5 rounded-lg px-3 py-1.5 text-xs text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500" />
+          <input list="preset-categories" value={draft.category} onChange={(e) => setDraft(d => ({ ...d, category: e.target.value }))} placeholder="Category" className="w-32 bg-slate-900 border border-white/5 rounded-lg px-3 py-1.5 text-xs text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500" />
+          <datalist id="preset-categories">{categories.map(c => <option key={c} value={c} />)}</datalist>
+          <button onClick={handleSave} disabled={!draft.name.trim()} className="px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase bg-indigo-600 text-white disabled:opacity-40">Save</button>
+          <button onClick={() => setIsSaving(false)} className="px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase text-slate-500 hover:text-slate-300">Cancel</button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-4">
+          <button onClick={() => setIsSaving(true)} className="text-[9px] text-indigo-400 font-bold uppercase hover:text-indigo-300">+ Save Current as Preset</button>
+          <button onClick={() => fileInputRef.current?.click()} className="text-[9px] text-slate-500 font-bold uppercase hover:text-slate-300">Import Pack</button>
+          {customPresets.length > 0 && (
+            <button onClick={handleExport} className="text-[9px] text-slate-500 font-bold uppercase hover:text-slate-300">
+              Export {activeTab && activeTab !== BUILT_IN_TAB ? `"${activeTab}"` : 'All'}
+            </button>
+          )}
+          <input ref={fileInputRef} type="file" className="hidden" accept=".json,application/json" onChange={handleImport} />
+        </div>
+      )}
+
+      {notice && <p className={`text-[10px] ${notice.isError ? 'text-red-400' : 'text-emerald-400'}`}>{notice.text}</p>}
+    </div>
+  );
+};
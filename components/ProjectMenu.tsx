@@ -0,0 +1,56 @@
+
+import React, { useRef, useState } from 'react';
+
+interface ProjectMenuProps {
+  name: string;
+  onRename: (name: string) => void;
+  onSave: (format: 'json' | 'zip') => Promise<void>;
+  onOpen: (file: File) => Promise<void>;
+  onNew: () => void;
+  autosavedAt: number | null;
+  autosaveDroppedFrames: boolean;
+}
+
+export const ProjectMenu: React.FC<ProjectMenuProps> = ({ name, onRename, onSave, onOpen, onNew, autosavedAt, autosaveDroppedFrames }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleOpen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) run(() => onOpen(file));
+  };
+
+  const buttonClass = "px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest border border-white/5 bg-slate-900 text-slate-400 hover:text-slate-200 transition-all";
+
+  return (
+    <div className="mt-6 space-y-2">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <input
+          value={name}
+          onChange={(e) => onRename(e.target.value)}
+          className="bg-transparent border-b border-slate-700 focus:border-blue-500 px-2 py-1 text-sm font-semibold text-slate-200 text-center outline-none w-56"
+          aria-label="Project name"
+        />
+        <button onClick={onNew} className={buttonClass}>New</button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>Open</button>
+        <button onClick={() => run(() => onSave('json'))} className={buttonClass}>Save .json</button>
+        <button onClick={() => run(() => onSave('zip'))} className={buttonClass}>Save .zip</button>
+        <input ref={fileInputRef} type="file" className="hidden" accept=".json,.zip,application/json,application/zip" onChange={handleOpen} />
+      </div>
+      <p className="text-[9px] text-slate-600 font-mono">
+        {autosavedAt ? `Autosaved ${new Date(autosavedAt).toLocaleTimeString()}${autosaveDroppedFrames ? ' • frames too large for local storage, save a file to keep them' : ''}` : 'Changes are autosaved locally'}
+      </p>
+      {error && <p className="text-[10px] text-red-400 max-w-xl mx-auto">{error}</p>}
+    </div>
+  );
+};
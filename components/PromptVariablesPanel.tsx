@@ -0,0 +1,114 @@
+
+import React, { useState } from 'react';
+import { MAX_MATRIX_JOBS } from '../constants';
+import { PromptVariable, VariableBinding } from '../types';
+import { countCombinations, expandMatrix } from '../utils/promptTemplate';
+
+interface PromptVariablesPanelProps {
+  variables: PromptVariable[];
+  onChange: (name: string, values: string[]) => void;
+  onRenderMatrix: (bindings: VariableBinding[]) => void;
+  canRender: boolean;
+}
+
+const bindingKey = (binding: VariableBinding) => JSON.stringify(binding);
+
+export const PromptVariablesPanel: React.FC<PromptVariablesPanelProps> = ({ variables, onChange, onRenderMatrix, canRender }) => {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  // Combinations are opted out rather than in, so newly added values join the matrix
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  const missingValues = variables.filter(v => v.values.length === 0);
+  const total = countCombinations(variables);
+  const combos = missingValues.length === 0 && total <= MAX_MATRIX_JOBS ? expandMatrix(variables) : [];
+  const selected = combos.filter(c => !excluded.has(bindingKey(c)));
+
+  const addValue = (variable: PromptVariable) => {
+    const value = (drafts[variable.name] ?? '').trim();
+    if (value && !variable.values.includes(value)) onChange(variable.name, [...variable.values, value]);
+    setDrafts(d => ({ ...d, [variable.name]: '' }));
+  };
+
+  const toggleCombo = (key: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      next.has(key) ? next.delete(key) : next.add(key);
+      return next;
+    });
+  };
+
+  return (
+    <div className="bg-slate-950/80 rounded-xl border border-white/5 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Prompt Variables</span>
+        <span className="text-[9px] text-slate-600">First value is used for single renders</span>
+      </div>
+
+      <table className="w-full text-xs">
+        <tbody>
+          {variables.map(variable => (
+            <tr key={variable.name} className="border-t border-white/5 first:border-t-0">
+              <td className="py-2 pr-3 align-top font-mono text-indigo-300 whitespace-nowrap">{`{{${variable.name}}}`}</td>
+              <td className="py-2">
+                <div className="flex flex-wrap items-center gap-1.5">
+                  {variable.values.map((value, i) => (
+                    <span key={value} className={`group flex items-center gap-1 px-2 py-1 rounded-full border text-[10px] font-bold ${i === 0 ? 'bg-indigo-600/30 border-indigo-500/50 text-indigo-100' : 'bg-slate-900 border-white/5 text-slate-400'}`}>
+                      <button onClick={() => onChange(variable.name, [value, ...variable.values.filter(v => v !== value)])} title="Use for single renders">{value}</button>
+                      <button onClick={() => onChange(variable.name, variable.values.filter(v => v !== value))} className="text-slate-500 hover:text-red-400" title="Remove value">✕</button>
+                    </span>
+                  ))}
+                  <input
+                    value={drafts[variable.name] ?? ''}
+                    onChange={(e) => setDrafts(d => ({ ...d, [variable.name]: e.target.value }))}
+                    onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addValue(variable); } }}
+                    onBlur={() => addValue(variable)}
+                    placeholder="Add value…"
+                    className={`flex-grow min-w-[6rem] bg-transparent border-b px-1 py-0.5 text-[10px] text-slate-200 outline-none ${variable.values.length === 0 ? 'border-red-500/50' : 'border-slate-800 focus:border-indigo-500'}`}
+                  />
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="pt-3 border-t border-white/5 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Matrix Render</span>
+          {combos.length > 0 && (
+            <div className="flex gap-3 text-[9px] font-bold uppercase">
+              <button onClick={() => setExcluded(new Set())} className="text-slate-500 hover:text-slate-300">All</button>
+              <button onClick={() => setExcluded(new Set(combos.map(bindingKey)))} className="text-slate-500 hover:text-slate-300">None</button>
+            </div>
+          )}
+        </div>
+
+        {missingValues.length > 0 ? (
+          <p className="text-[10px] text-red-400">Add a value for {missingValues.map(v => `{{${v.name}}}`).join(', ')}.</p>
+        ) : total > MAX_MATRIX_JOBS ? (
+          <p className="text-[10px] text-amber-400">{total} combinations exceed the limit of {MAX_MATRIX_JOBS} jobs per matrix. Remove some values.</p>
+        ) : (
+          <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1 pr-2">
+            {combos.map(combo => {
+              const key = bindingKey(combo);
+              return (
+                <label key={key} className="flex items-center gap-2 text-[10px] text-slate-400 cursor-pointer">
+                  <input type="checkbox" checked={!excluded.has(key)} onChange={() => toggleCombo(key)} className="accent-indigo-500" />
+                  {variables.map(v => combo[v.name]).join(' • ')}
+                </label>
+              );
+            })}
+          </div>
+        )}
+
+        <button
+          onClick={() => onRenderMatrix(selected)}
+          disabled={!canRender || selected.length === 0}
+          className="w-full py-2.5 rounded-lg text-[10px] font-bold uppercase tracking-widest bg-indigo-600 hover:bg-indigo-500 text-white disabled:bg-slate-800 disabled:text-slate-500 transition-all"
+        >
+          Render {selected.length} {selected.length === 1 ? 'Variant' : 'Variants'}
+        </button>
+      </div>
+    </div>
+  );
+};
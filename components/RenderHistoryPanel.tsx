@@ -0,0 +1,73 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { RenderHistoryEntry } from '../types';
+import { fileExtensionFor } from '../utils/media';
+
+interface RenderHistoryPanelProps {
+  entries: RenderHistoryEntry[];
+  onRestore: (entry: RenderHistoryEntry) => void;
+  onDelete: (id: string) => void;
+}
+
+export const RenderHistoryPanel: React.FC<RenderHistoryPanelProps> = ({ entries, onRestore, onDelete }) => {
+  const [playingId, setPlayingId] = useState<string | null>(null);
+
+  const urls = useMemo(() => {
+    const map: Record<string, string> = {};
+    entries.forEach(e => { map[e.id] = URL.createObjectURL(e.blob); });
+    return map;
+  }, [entries]);
+
+  useEffect(() => () => {
+    for (const id in urls) URL.revokeObjectURL(urls[id]);
+  }, [urls]);
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl border-white/5 shadow-2xl">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold">Render History</h3>
+        <span className="text-[10px] text-slate-500 font-mono">{entries.length} saved</span>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-center text-[10px] text-slate-600 font-bold uppercase tracking-widest py-8">Finished renders are saved here automatically</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
+          {entries.map(entry => (
+            <div key={entry.id} className="bg-slate-900/60 rounded-xl border border-white/5 overflow-hidden flex flex-col">
+              <div className="relative aspect-video bg-slate-950 flex items-center justify-center">
+                {playingId === entry.id ? (
+                  <video src={urls[entry.id]} controls autoPlay className="w-full h-full object-contain" />
+                ) : (
+                  <button onClick={() => setPlayingId(entry.id)} className="w-full h-full group">
+                    {entry.settings.startImage && <img src={entry.settings.startImage} className="w-full h-full object-cover opacity-70 group-hover:opacity-100 transition-opacity" alt={entry.label} />}
+                    <span className="absolute inset-0 flex items-center justify-center">
+                      <svg className="w-10 h-10 text-white drop-shadow-lg" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                    </span>
+                  </button>
+                )}
+              </div>
+              <div className="p-3 flex flex-col gap-2 flex-grow">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs font-bold text-slate-200 truncate">{entry.label}</p>
+                  <span className="text-[9px] text-slate-500 font-mono shrink-0">{entry.settings.aspectRatio} • {entry.settings.resolution}</span>
+                </div>
+                <p className="text-[10px] text-slate-500 leading-snug line-clamp-2 italic" title={entry.enginePrompt}>"{entry.enginePrompt}"</p>
+                {entry.settings.negativePrompt && <p className="text-[9px] text-red-300/60 leading-snug line-clamp-1" title={entry.settings.negativePrompt}>Avoid: {entry.settings.negativePrompt}</p>}
+                <p className="text-[9px] text-slate-600 font-mono">
+                  {new Date(entry.createdAt).toLocaleString()}
+                  {entry.settings.seed !== undefined && entry.settings.seed !== null && ` • Seed ${entry.settings.seed}`}
+                </p>
+                <div className="flex gap-3 mt-auto pt-2 border-t border-white/5">
+                  <button onClick={() => onRestore(entry)} className="text-[9px] text-blue-400 font-bold uppercase hover:text-blue-300">Re-open in Director's Suite</button>
+                  <a href={urls[entry.id]} download={`gemini-scene-${entry.id}.${fileExtensionFor(entry.mimeType)}`} className="text-[9px] text-emerald-400 font-bold uppercase hover:text-emerald-300">Download</a>
+                  <button onClick={() => onDelete(entry.id)} className="text-[9px] text-red-400 font-bold uppercase hover:text-red-300 ml-auto">Delete</button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
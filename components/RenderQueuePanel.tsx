@@ -0,0 +1,88 @@
+
+import React from 'react';
+import { RenderJob, RenderJobPhase } from '../types';
+
+const PHASE_STYLES: Record<RenderJobPhase, string> = {
+  queued: 'bg-slate-800 text-slate-400 border-slate-700',
+  running: 'bg-blue-600/20 text-blue-300 border-blue-500/40',
+  complete: 'bg-emerald-600/20 text-emerald-300 border-emerald-500/40',
+  failed: 'bg-red-600/20 text-red-300 border-red-500/40',
+  cancelled: 'bg-slate-800 text-slate-500 border-slate-700',
+};
+
+interface RenderQueuePanelProps {
+  jobs: RenderJob[];
+  focusedJobId: string | null;
+  concurrency: number;
+  onConcurrencyChange: (value: number) => void;
+  onFocus: (id: string) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+export const RenderQueuePanel: React.FC<RenderQueuePanelProps> = ({
+  jobs, focusedJobId, concurrency, onConcurrencyChange, onFocus, onCancel, onRetry, onRemove
+}) => {
+  const activeCount = jobs.filter(j => j.phase === 'running').length;
+  const queuedCount = jobs.filter(j => j.phase === 'queued').length;
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl flex flex-col border-white/5 shadow-2xl min-h-[440px]">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">Render Queue</h3>
+        <span className="text-[10px] text-slate-500 font-mono">{activeCount} running • {queuedCount} queued</span>
+      </div>
+
+      <div className="flex items-center justify-between mb-4 pb-4 border-b border-white/5">
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Parallel Jobs</span>
+        <div className="flex gap-1">
+          {[1, 2, 3, 4].map(n => (
+            <button
+              key={n}
+              onClick={() => onConcurrencyChange(n)}
+              className={`w-7 h-7 rounded-lg text-[10px] font-bold border transition-all ${concurrency === n ? 'bg-blue-600 border-blue-400 text-white' : 'bg-slate-900 border-white/5 text-slate-500 hover:text-slate-300'}`}
+            >
+              {n}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-grow space-y-2 overflow-y-auto pr-1 custom-scrollbar">
+        {jobs.length === 0 ? (
+          <p className="text-center text-[10px] text-slate-600 font-bold uppercase tracking-widest pt-12">No renders queued</p>
+        ) : [...jobs].reverse().map(job => (
+          <div
+            key={job.id}
+            onClick={() => onFocus(job.id)}
+            className={`p-3 rounded-xl border cursor-pointer transition-all ${focusedJobId === job.id ? 'bg-slate-800/80 border-blue-500/50' : 'bg-slate-900/60 border-white/5 hover:border-white/10'}`}
+          >
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <p className="text-xs font-bold text-slate-200 truncate">{job.label}</p>
+              <span className={`px-2 py-0.5 rounded-full text-[8px] font-bold uppercase border ${PHASE_STYLES[job.phase]}`}>{job.phase}</span>
+            </div>
+            <p className="text-[9px] text-slate-500 font-mono mb-2">{job.params.aspectRatio} • {job.params.resolution} • {new Date(job.createdAt).toLocaleTimeString()}</p>
+            {job.phase === 'running' && (
+              <div className="relative h-1 bg-slate-950 rounded-full overflow-hidden mb-2">
+                <div className="absolute h-full bg-gradient-to-r from-blue-500 to-indigo-500 transition-all duration-500" style={{ width: `${job.progress}%` }}></div>
+              </div>
+            )}
+            {job.error && <p className="text-[10px] text-red-300/70 leading-snug mb-2 line-clamp-2">{job.error}</p>}
+            <div className="flex gap-3">
+              {(job.phase === 'queued' || job.phase === 'running') && (
+                <button onClick={(e) => { e.stopPropagation(); onCancel(job.id); }} className="text-[9px] text-amber-400 font-bold uppercase hover:text-amber-300">Cancel</button>
+              )}
+              {(job.phase === 'failed' || job.phase === 'cancelled') && (
+                <button onClick={(e) => { e.stopPropagation(); onRetry(job.id); }} className="text-[9px] text-blue-400 font-bold uppercase hover:text-blue-300">Retry</button>
+              )}
+              {job.phase !== 'running' && (
+                <button onClick={(e) => { e.stopPropagation(); onRemove(job.id); }} className="text-[9px] text-slate-500 font-bold uppercase hover:text-slate-300">Remove</button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { hasSoundtrack, SoundtrackMix } from '../services/audioEngine';
+import { classifyError } from '../services/errors';
+import { exportSequence } from '../services/sequenceExport';
+import { AspectRatio, RenderJob, Resolution } from '../types';
+import { fileExtensionFor, RecorderFormat } from '../utils/media';
+
+interface SequenceExportPanelProps {
+  jobs: RenderJob[];
+  preselectedIds: string[];
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  soundtrack: SoundtrackMix;
+  beatGrid?: number[];
+}
+
+const CROSSFADE_OPTIONS = [
+  { ms: 0, label: 'Hard Cut' },
+  { ms: 500, label: '0.5s' },
+  { ms: 1000, label: '1s' },
+];
+
+export const SequenceExportPanel: React.FC<SequenceExportPanelProps> = ({ jobs, preselectedIds, aspectRatio, resolution, soundtrack, beatGrid }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [format, setFormat] = useState<RecorderFormat>('mp4');
+  const [crossfadeMs, setCrossfadeMs] = useState(500);
+  const [includeSoundtrack, setIncludeSoundtrack] = useState(true);
+  const [cutOnBeat, setCutOnBeat] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ url: string; mimeType: string } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const finishedJobs = jobs.filter(j => j.phase === 'complete' && j.videoUrl);
+  const selectedJobs = selectedIds
+    .map(id => finishedJobs.find(j => j.id === id))
+    .filter((j): j is RenderJob => !!j);
+
+  // A freshly completed storyboard replaces the current selection
+  useEffect(() => {
+    if (preselectedIds.length > 0) setSelectedIds(preselectedIds);
+  }, [preselectedIds.join('|')]);
+
+  useEffect(() => () => {
+    if (result) URL.revokeObjectURL(result.url);
+  }, [result]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const toggleJob = (id: string) => {
+    setSelectedIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResult(null);
+    setError(null);
+    setProgress(0);
+    try {
+      const exported = await exportSequence(selectedJobs.map(j => j.videoUrl!), {
+        aspectRatio,
+        resolution,
+        format,
+        crossfadeMs,
+        soundtrack: includeSoundtrack ? soundtrack : undefined,
+        beatGrid: cutOnBeat ? beatGrid : undefined,
+        onProgress: setProgress,
+        signal: controller.signal
+      });
+      setResult({ url: URL.createObjectURL(exported.blob), mimeType: exported.mimeType });
+    } catch (err) {
+      const classified = classifyError(err);
+      if (classified.code !== 'cancelled') setError(classified.message);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  if (finishedJobs.length < 2) return null;
+
+  const isExporting = progress !== null;
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl border-white/5 shadow-2xl space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Sequence Export</h3>
+        <span className="text-[10px] text-slate-500 font-mono">{aspectRatio} • {resolution}</span>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest block">Clips (in export order)</label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {finishedJobs.map(job => {
+            const order = selectedIds.indexOf(job.id);
+            return (
+              <button
+                key={job.id}
+                onClick={() => toggleJob(job.id)}
+                disabled={isExporting}
+                className={`flex items-center gap-3 p-3 rounded-xl border text-left transition-all ${order >= 0 ? 'bg-blue-600/10 border-blue-500/40' : 'bg-slate-900/60 border-white/5 hover:border-white/10'}`}
+              >
+                <span className={`w-6 h-6 shrink-0 rounded-full flex items-center justify-center text-[10px] font-bold font-mono ${order >= 0 ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-600'}`}>
+                  {order >= 0 ? order + 1 : '–'}
+                </span>
+                <span className="text-xs font-bold text-slate-200 truncate">{job.label}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest block">Container</label>
+          <div className="flex gap-2">
+            {(['mp4', 'webm'] as const).map(f => (
+              <button key={f} onClick={() => setFormat(f)} disabled={isExporting} className={`flex-1 py-2 rounded-lg text-[10px] font-bold uppercase border transition-all ${format === f ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-900 border-white/5 text-slate-500'}`}>{f}</button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest block">Transition</label>
+          <div className="flex gap-2">
+            {CROSSFADE_OPTIONS.map(opt => (
+              <button key={opt.ms} onClick={() => setCrossfadeMs(opt.ms)} disabled={isExporting} className={`flex-1 py-2 rounded-lg text-[10px] font-bold uppercase border transition-all ${crossfadeMs === opt.ms ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-900 border-white/5 text-slate-500'}`}>{opt.label}</button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {hasSoundtrack(soundtrack) && (
+        <label className="flex items-center gap-3 text-[10px] font-bold text-slate-400 uppercase tracking-widest cursor-pointer">
+          <input type="checkbox" checked={includeSoundtrack} onChange={(e) => setIncludeSoundtrack(e.target.checked)} disabled={isExporting} className="accent-indigo-500" />
+          Mix in selected music &amp; SFX
+        </label>
+      )}
+
+      {beatGrid && beatGrid.length > 0 && (
+        <label className="flex items-center gap-3 text-[10px] font-bold text-slate-400 uppercase tracking-widest cursor-pointer">
+          <input type="checkbox" checked={cutOnBeat} onChange={(e) => setCutOnBeat(e.target.checked)} disabled={isExporting} className="accent-indigo-500" />
+          Cut on the beat
+        </label>
+      )}
+
+      {isExporting ? (
+        <div className="space-y-3">
+          <div className="relative h-2 bg-slate-900 rounded-full overflow-hidden">
+            <div className="absolute h-full bg-gradient-to-r from-blue-500 to-indigo-500 transition-all duration-300" style={{ width: `${Math.round(progress! * 100)}%` }}></div>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] text-indigo-400 font-bold uppercase tracking-widest">Recording sequence • {Math.round(progress! * 100)}%</span>
+            <button onClick={() => abortRef.current?.abort()} className="px-4 py-2 rounded-full text-[10px] font-bold uppercase border border-red-500/40 text-red-300 hover:bg-red-600/20 transition-all">Cancel Export</button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={handleExport}
+          disabled={selectedJobs.length < 2}
+          className={`w-full py-3 rounded-xl font-bold transition-all ${selectedJobs.length < 2 ? 'bg-slate-800 text-slate-500' : 'bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white active:scale-[0.98]'}`}
+        >
+          Export {selectedJobs.length} Clips as One File
+        </button>
+      )}
+
+      {error && <p className="text-[10px] text-red-400 font-mono break-words">{error}</p>}
+
+      {result && (
+        <div className="space-y-3 pt-4 border-t border-white/5">
+          <video src={result.url} controls className={`w-full rounded-xl bg-slate-950 ${aspectRatio === '9:16' ? 'aspect-[9/16] max-h-[480px]' : 'aspect-video'}`} />
+          <a href={result.url} download={`gemini-sequence.${fileExtensionFor(result.mimeType)}`} className="block text-center text-[10px] px-4 py-2 bg-blue-600 text-white rounded-full hover:bg-blue-500 transition-colors font-bold uppercase shadow-lg shadow-blue-900/40">
+            Download {fileExtensionFor(result.mimeType).toUpperCase()}
+          </a>
+        </div>
+      )}
+    </div>
+  );
+};
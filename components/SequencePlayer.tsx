@@ -0,0 +1,69 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio } from '../types';
+
+interface SequencePlayerProps {
+  clips: string[];
+  aspectRatio: AspectRatio;
+}
+
+/**
+ * Plays a list of clips back to back as one looping sequence.
+ * Two video elements alternate so the next clip is already buffered when the current one ends.
+ */
+export const SequencePlayer: React.FC<SequencePlayerProps> = ({ clips, aspectRatio }) => {
+  const [current, setCurrent] = useState(0);
+  const [activeSlot, setActiveSlot] = useState(0);
+  const slotRefs = [useRef<HTMLVideoElement>(null), useRef<HTMLVideoElement>(null)];
+
+  const index = clips.length > 0 ? current % clips.length : 0;
+  const next = clips.length > 0 ? (index + 1) % clips.length : 0;
+  const slotSrc = activeSlot === 0 ? [clips[index], clips[next]] : [clips[next], clips[index]];
+
+  useEffect(() => {
+    setCurrent(0);
+    setActiveSlot(0);
+  }, [clips.join('|')]);
+
+  useEffect(() => {
+    const video = slotRefs[activeSlot].current;
+    if (!video) return;
+    video.currentTime = 0;
+    video.play().catch(() => {});
+  }, [index, activeSlot]);
+
+  const handleEnded = () => {
+    if (clips.length <= 1) {
+      slotRefs[activeSlot].current?.play().catch(() => {});
+      return;
+    }
+    setCurrent(next);
+    setActiveSlot(slot => 1 - slot);
+  };
+
+  if (clips.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className={`relative w-full bg-slate-950 rounded-xl overflow-hidden border border-white/5 ${aspectRatio === '9:16' ? 'aspect-[9/16] max-h-[480px] mx-auto' : 'aspect-video'}`}>
+        {[0, 1].map(slot => (
+          <video
+            key={slot}
+            ref={slotRefs[slot]}
+            src={slotSrc[slot]}
+            muted={slot !== activeSlot}
+            playsInline
+            preload="auto"
+            onEnded={slot === activeSlot ? handleEnded : undefined}
+            className={`absolute inset-0 w-full h-full object-contain ${slot === activeSlot ? 'opacity-100' : 'opacity-0'}`}
+          />
+        ))}
+      </div>
+      <div className="flex gap-1">
+        {clips.map((_, i) => (
+          <div key={i} className={`h-1 flex-1 rounded-full ${i === index ? 'bg-blue-500' : 'bg-slate-800'}`} />
+        ))}
+      </div>
+    </div>
+  );
+};
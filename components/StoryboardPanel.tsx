@@ -0,0 +1,164 @@
+
+import React, { useRef } from 'react';
+import { ADVANCED_ATMOSPHERE, ADVANCED_CAM_ANGLES, ADVANCED_MOTION } from '../constants';
+import { RenderJob, StoryboardKeyframe } from '../types';
+import { SequencePlayer } from './SequencePlayer';
+
+interface StoryboardPanelProps {
+  keyframes: StoryboardKeyframe[];
+  onChange: (keyframes: StoryboardKeyframe[]) => void;
+  defaultPrompt: string;
+  sequenceJobs: RenderJob[];
+  onRender: () => void;
+}
+
+const createKeyframeId = () => `kf-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+export const StoryboardPanel: React.FC<StoryboardPanelProps> = ({
+  keyframes, onChange, defaultPrompt, sequenceJobs, onRender
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAddFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    const images = await Promise.all(files.map(readAsDataUrl));
+    onChange([
+      ...keyframes,
+      ...images.map(image => ({
+        id: createKeyframeId(),
+        image,
+        prompt: defaultPrompt,
+        camAngle: 'wide',
+        motionType: 'pan',
+        atmosphere: []
+      }))
+    ]);
+  };
+
+  const updateKeyframe = (id: string, patch: Partial<StoryboardKeyframe>) => {
+    onChange(keyframes.map(kf => kf.id === id ? { ...kf, ...patch } : kf));
+  };
+
+  const moveKeyframe = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= keyframes.length) return;
+    const reordered = [...keyframes];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const toggleAtmosphere = (kf: StoryboardKeyframe, id: string) => {
+    updateKeyframe(kf.id, {
+      atmosphere: kf.atmosphere.includes(id) ? kf.atmosphere.filter(a => a !== id) : [...kf.atmosphere, id]
+    });
+  };
+
+  const shotCount = Math.max(keyframes.length - 1, 0);
+  const finishedClips = sequenceJobs.filter(j => j.phase === 'complete' && j.videoUrl);
+  const sequenceComplete = sequenceJobs.length > 0 && finishedClips.length === sequenceJobs.length;
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl border-white/5 shadow-2xl space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <svg className="w-5 h-5 text-indigo-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 4v16M17 4v16M3 8h4m10 0h4M3 12h18M3 16h4m10 0h4M4 20h16a1 1 0 001-1V5a1 1 0 00-1-1H4a1 1 0 00-1 1v14a1 1 0 001 1z" />
+          </svg>
+          Storyboard Timeline
+        </h3>
+        <span className="text-[10px] text-slate-500 font-mono">{keyframes.length} keyframes • {shotCount} shots</span>
+      </div>
+
+      <div className="space-y-3">
+        {keyframes.map((kf, index) => (
+          <div key={kf.id} className="flex gap-4 p-4 bg-slate-950/80 rounded-xl border border-white/5">
+            <div className="w-32 shrink-0 space-y-2">
+              <div className="relative">
+                <img src={kf.image} className="w-full h-20 object-cover rounded-lg" alt={`Keyframe ${index + 1}`} />
+                <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded bg-black/70 text-[9px] font-bold font-mono">{index + 1}</span>
+              </div>
+              <div className="flex justify-between">
+                <button onClick={() => moveKeyframe(index, -1)} disabled={index === 0} className="text-[9px] text-slate-400 font-bold uppercase disabled:opacity-30">↑ Up</button>
+                <button onClick={() => moveKeyframe(index, 1)} disabled={index === keyframes.length - 1} className="text-[9px] text-slate-400 font-bold uppercase disabled:opacity-30">↓ Down</button>
+                <button onClick={() => onChange(keyframes.filter(k => k.id !== kf.id))} className="text-[9px] text-red-400 font-bold uppercase">✕</button>
+              </div>
+            </div>
+
+            {index < keyframes.length - 1 ? (
+              <div className="flex-grow space-y-3 min-w-0">
+                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest block">Shot {index + 1} → Keyframe {index + 2}</label>
+                <textarea
+                  value={kf.prompt}
+                  onChange={(e) => updateKeyframe(kf.id, { prompt: e.target.value })}
+                  placeholder="Describe this shot..."
+                  className="w-full h-16 bg-slate-900 border border-slate-800 rounded-lg p-2 text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none text-xs"
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  <select value={kf.camAngle} onChange={(e) => updateKeyframe(kf.id, { camAngle: e.target.value })} className="bg-slate-900 border border-white/5 rounded-lg p-2 text-[10px] font-bold text-slate-300">
+                    {ADVANCED_CAM_ANGLES.map(angle => <option key={angle.id} value={angle.id}>{angle.icon} {angle.name}</option>)}
+                  </select>
+                  <select value={kf.motionType} onChange={(e) => updateKeyframe(kf.id, { motionType: e.target.value })} className="bg-slate-900 border border-white/5 rounded-lg p-2 text-[10px] font-bold text-slate-300">
+                    {ADVANCED_MOTION.map(motion => <option key={motion.id} value={motion.id}>{motion.name}</option>)}
+                  </select>
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                  {ADVANCED_ATMOSPHERE.map(effect => (
+                    <button key={effect.id} onClick={() => toggleAtmosphere(kf, effect.id)} className={`px-2 py-1 rounded-lg text-[9px] font-bold border transition-all ${kf.atmosphere.includes(effect.id) ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900 border-white/5 text-slate-500 hover:text-slate-300'}`}>
+                      {effect.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div className="flex-grow flex items-center text-[10px] text-slate-600 font-bold uppercase tracking-widest">Final keyframe</div>
+            )}
+          </div>
+        ))}
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full py-4 rounded-xl border-2 border-dashed border-slate-700 hover:border-blue-500/50 text-[10px] text-slate-500 font-bold uppercase tracking-widest transition-all"
+        >
+          + Add Keyframes
+        </button>
+        <input ref={fileInputRef} type="file" className="hidden" accept="image/*" multiple onChange={handleAddFiles} />
+      </div>
+
+      <button
+        onClick={onRender}
+        disabled={shotCount === 0}
+        className={`w-full py-4 rounded-xl font-bold text-lg transition-all flex items-center justify-center gap-3 shadow-2xl ${shotCount === 0 ? 'bg-slate-800 text-slate-500' : 'bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white active:scale-[0.98]'}`}
+      >
+        Render Storyboard ({shotCount} {shotCount === 1 ? 'shot' : 'shots'})
+      </button>
+
+      {sequenceJobs.length > 0 && (
+        <div className="space-y-3 pt-4 border-t border-white/5">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Sequence Preview</span>
+            <span className="text-[10px] text-slate-500 font-mono">{finishedClips.length}/{sequenceJobs.length} clips ready</span>
+          </div>
+          {sequenceComplete ? (
+            <SequencePlayer clips={finishedClips.map(j => j.videoUrl!)} aspectRatio={sequenceJobs[0].params.aspectRatio} />
+          ) : (
+            <div className="flex gap-1">
+              {sequenceJobs.map(job => (
+                <div key={job.id} className="flex-1 h-1.5 rounded-full bg-slate-900 overflow-hidden">
+                  <div className={`h-full ${job.phase === 'failed' ? 'bg-red-500' : 'bg-blue-500'}`} style={{ width: `${job.phase === 'complete' ? 100 : job.progress}%` }} />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
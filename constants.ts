@@ -0,0 +1,294 @@
+import { AudioOption, AudioTimeline, EditorParams, Phrasebook, ResamplingQuality, SceneSettings } from './types';
+
+
+export const PRESETS = [
+  {
+    id: 'cinematic',
+    name: 'Cinematic Slow Motion',
+    icon: '🎬',
+    prompt: 'A cinematic slow-motion sweep of the background. Elegant soft lighting, shallow depth of field, and a high-end film stock look. The camera moves slowly and smoothly.',
+  },
+  {
+    id: 'tech',
+    name: 'Tech Workspace',
+    icon: '💻',
+    prompt: 'A futuristic coding workspace background with holographic VS Code, Python, and Google Gemini logos floating. Subtle neon flickers, tech-noir aesthetic, and clean data visualizations.',
+  },
+  {
+    id: 'brand',
+    name: 'Brand Orbit',
+    icon: '✨',
+    prompt: 'Soft studio lighting with YouTube and Google AI Studio logos orbiting gracefully in the background. Smooth circular motion, professional brand showcase feel, clean minimalist style.',
+  },
+  {
+    id: 'dreamy',
+    name: 'Dreamy Transition',
+    icon: '☁️',
+    prompt: 'An ethereal, dreamy animation. Soft glowing particles, pastel color palette, and a slow, smooth transition between background elements with light leaks.',
+  },
+  {
+    id: 'action',
+    name: 'Action Pulse',
+    icon: '⚡',
+    prompt: 'Fast-paced dynamic camera zoom and energetic light streaks in the background. High contrast, vibrant colors, and an intense action movie energy.',
+  }
+];
+
+export const TIMEOUT_OPTIONS = [
+  { minutes: 5, label: '5 min' },
+  { minutes: 10, label: '10 min' },
+  { minutes: 15, label: '15 min' },
+  { minutes: 30, label: '30 min' },
+];
+
+// Veo accepts any unsigned 32-bit seed
+export const MAX_SEED = 0xffffffff;
+
+// Upper bound on the jobs a single matrix render may enqueue
+export const MAX_MATRIX_JOBS = 50;
+
+// Submission rates offered for batch renders, to stay under the API's request quota
+export const BATCH_RATE_LIMITS = [
+  { perMinute: 2, label: '2 / min' },
+  { perMinute: 5, label: '5 / min' },
+  { perMinute: 10, label: '10 / min' },
+  { perMinute: 20, label: '20 / min' },
+];
+
+export const RESAMPLING_QUALITIES: { id: ResamplingQuality; name: string }[] = [
+  { id: 'nearest', name: 'Nearest' },
+  { id: 'bilinear', name: 'Bilinear' },
+  { id: 'bicubic', name: 'Bicubic' },
+];
+
+export const DEFAULT_EDITOR_PARAMS: EditorParams = {
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  hue: 0,
+  vignette: 0,
+  grayscale: false,
+  sepia: false,
+  rotation: 0,
+  rotateX: 0,
+  rotateY: 0,
+  perspective: 1000,
+  cameraShake: 0,
+  resampling: 'bicubic',
+  crop: { x: 0.5, y: 0.5, zoom: 1 },
+  temperature: 0,
+  tint: 0,
+  levels: { inputBlack: 0, inputWhite: 255, gamma: 1, outputBlack: 0, outputWhite: 255 },
+  curves: {
+    master: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
+    red: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
+    green: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
+    blue: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
+  },
+  lut: null,
+};
+
+export const MAX_CROP_ZOOM = 4;
+
+export const MAX_CURVE_POINTS = 16;
+
+export const BG_MUSIC_LIBRARY: AudioOption[] = [
+  { id: 'none', name: 'None', icon: '🔇', url: '' },
+  { id: 'tech', name: 'Digital Nexus', icon: '🛰️', url: 'https://actions.google.dev/sounds/v1/science_fiction/glitchy_digital_interface.ogg' },
+  { id: 'space', name: 'Deep Space', icon: '🌌', url: 'https://actions.google.dev/sounds/v1/science_fiction/ambient_space_ship_hum.ogg' },
+  { id: 'city', name: 'Cyber City', icon: '🏙️', url: 'https://actions.google.dev/sounds/v1/ambiences/city_street_ambience.ogg' },
+  { id: 'nature', name: 'Windy Peak', icon: '🏔️', url: 'https://actions.google.dev/sounds/v1/weather/wind_gusting_through_trees.ogg' },
+];
+
+export const SFX_LIBRARY: AudioOption[] = [
+  { id: 'none', name: 'None', icon: '🔇', url: '' },
+  { id: 'glitch', name: 'Glitch Step', icon: '📟', url: 'https://actions.google.dev/sounds/v1/science_fiction/digital_glitch_long.ogg' },
+  { id: 'whoosh', name: 'Deep Whoosh', icon: '💨', url: 'https://actions.google.dev/sounds/v1/foley/whoosh_impact.ogg' },
+  { id: 'pulse', name: 'Energy Pulse', icon: '🔋', url: 'https://actions.google.dev/sounds/v1/science_fiction/force_field_pulse.ogg' },
+  { id: 'chime', name: 'Tech Chime', icon: '🔔', url: 'https://actions.google.dev/sounds/v1/science_fiction/digital_chime.ogg' },
+];
+
+export const DEFAULT_AUDIO_TIMELINE: AudioTimeline = {
+  cues: [],
+  musicTrimStart: 0,
+  musicTrimEnd: null,
+  musicOffset: 0,
+  fadeIn: 0,
+  fadeOut: 0,
+  duckLevel: 1,
+};
+
+export const ADVANCED_CAM_ANGLES = [
+  { id: 'wide', name: 'Wide Angle', icon: '↔️', keyword: 'captured from a sprawling wide-angle perspective' },
+  { id: 'closeup', name: 'Close Up', icon: '🔍', keyword: 'framed in an intimate close-up shot with extreme detail' },
+  { id: 'birdseye', name: 'Bird\'s Eye', icon: '🦅', keyword: 'from a high-altitude bird\'s eye view looking straight down' },
+  { id: 'lowangle', name: 'Low Angle', icon: '📐', keyword: 'filmed from a dramatic low-angle perspective looking upward' },
+  { id: 'pov', name: 'POV', icon: '👁️', keyword: 'from a first-person point-of-view perspective' },
+];
+
+export const ADVANCED_MOTION = [
+  { id: 'pan', name: 'Smooth Pan', desc: 'Horizontal tracking' },
+  { id: 'tilt', name: 'Vertical Tilt', desc: 'Up/Down sweep' },
+  { id: 'zoomin', name: 'Zoom In', desc: 'Slow magnification' },
+  { id: 'zoomout', name: 'Zoom Out', desc: 'Revealing pull-back' },
+  { id: 'orbit', name: '360 Orbit', desc: 'Circular rotation' },
+  { id: 'dolly', name: 'Dolly Push', desc: 'Forward movement' },
+];
+
+export const ADVANCED_ATMOSPHERE = [
+  { id: 'volumetric', name: 'Volumetric', desc: 'God rays and dust' },
+  { id: 'neon', name: 'Neon Glow', desc: 'Cyberpunk vibrancy' },
+  { id: 'fog', name: 'Ethereal Fog', desc: 'Mist and mystery' },
+  { id: 'rain', name: 'Heavy Rain', desc: 'Dramatic downpour' },
+  { id: 'golden', name: 'Golden Hour', desc: 'Sunset warmth' },
+  { id: 'monochrome', name: 'Film Noir', desc: 'High contrast B&W' },
+];
+
+const listOf = (items: string[], and: string) =>
+  items.length > 1 ? `${items.slice(0, -1).join(', ')} ${and} ${items[items.length - 1]}` : items.join('');
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+export const PROMPT_PHRASEBOOKS: Phrasebook[] = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    camAngles: Object.fromEntries(ADVANCED_CAM_ANGLES.map(a => [a.id, a.keyword])),
+    motions: Object.fromEntries(ADVANCED_MOTION.map(m => [m.id, m.name])),
+    atmospheres: Object.fromEntries(ADVANCED_ATMOSPHERE.map(a => [a.id, a.name])),
+    camAngle: (angle) => `Scene ${angle}.`,
+    // Same wording as before phrasebooks existed: the effects finish the motion sentence
+    motionType: (motion, hasAtmosphere) => `The animation uses a ${motion} movement style${hasAtmosphere ? '' : '.'}`,
+    atmosphere: (effects) => `with ${effects.join(', ')} atmospheric effects.`,
+    slow: 'The animation should be very slow, deliberate, and serene.',
+    fast: 'The animation should be fast-paced, high-energy, and dynamic.',
+    tempo: (bpm) => `Motion pulses at ${bpm} BPM, with camera accents landing on the beat.`,
+    motionBlur: 'Apply realistic cinematic motion blur.',
+    stabilization: 'Ensure perfectly stabilized, jitter-free camera movement.',
+  },
+  {
+    id: 'terse',
+    name: 'Terse',
+    camAngles: { wide: 'wide shot', closeup: 'close-up', birdseye: 'bird\'s-eye view', lowangle: 'low angle', pov: 'POV shot' },
+    motions: { pan: 'smooth pan', tilt: 'vertical tilt', zoomin: 'slow zoom in', zoomout: 'zoom out', orbit: '360° orbit', dolly: 'dolly push' },
+    atmospheres: { volumetric: 'god rays', neon: 'neon glow', fog: 'fog', rain: 'heavy rain', golden: 'golden hour', monochrome: 'black and white' },
+    camAngle: (angle) => `${capitalize(angle)}.`,
+    motionType: (motion) => `${capitalize(motion)}.`,
+    atmosphere: (effects) => `${capitalize(effects.join(', '))}.`,
+    slow: 'Slow motion.',
+    fast: 'Fast-paced.',
+    tempo: (bpm) => `${bpm} BPM rhythm.`,
+    motionBlur: 'Motion blur.',
+    stabilization: 'Stabilized.',
+  },
+  {
+    id: 'verbose',
+    name: 'Verbose',
+    camAngles: {
+      wide: 'captured from a sprawling wide-angle perspective that takes in the full breadth of the environment',
+      closeup: 'framed in an intimate close-up that reveals fine texture and detail',
+      birdseye: 'seen from a high-altitude bird\'s eye view looking straight down over the landscape',
+      lowangle: 'filmed from a dramatic low angle looking upward, so the subject feels monumental',
+      pov: 'experienced from a first-person point of view, as if through the eyes of a participant',
+    },
+    motions: {
+      pan: 'a smooth horizontal tracking pan',
+      tilt: 'a steady vertical tilt sweeping up or down',
+      zoomin: 'a slow, gradual magnification toward the subject',
+      zoomout: 'a revealing pull-back that widens the view',
+      orbit: 'a continuous 360-degree orbit around the subject',
+      dolly: 'a forward dolly push that travels through the space',
+    },
+    atmospheres: {
+      volumetric: 'volumetric god rays and drifting dust',
+      neon: 'vibrant cyberpunk neon glow',
+      fog: 'ethereal fog and mist',
+      rain: 'a dramatic heavy downpour',
+      golden: 'warm golden-hour sunlight',
+      monochrome: 'high-contrast black-and-white film noir tones',
+    },
+    camAngle: (angle) => `The scene is ${angle}.`,
+    motionType: (motion) => `The camera moves with ${motion}, keeping the motion fluid and intentional.`,
+    atmosphere: (effects) => `The atmosphere is enriched with ${listOf(effects, 'and')}.`,
+    slow: 'The pacing is very slow, deliberate and serene, letting every moment breathe.',
+    fast: 'The pacing is fast, high-energy and dynamic, with punchy, decisive movement.',
+    tempo: (bpm) => `The motion pulses in time with a ${bpm} BPM beat, with camera accents landing precisely on each beat.`,
+    motionBlur: 'Apply realistic cinematic motion blur to fast-moving elements, as a film camera with a 180-degree shutter would.',
+    stabilization: 'Keep the camera perfectly stabilized and free of any jitter or shake.',
+  },
+  {
+    id: 'es',
+    name: 'Español',
+    camAngles: {
+      wide: 'capturada desde una amplia perspectiva gran angular',
+      closeup: 'encuadrada en un primer plano íntimo con detalle extremo',
+      birdseye: 'vista desde lo alto, a vista de pájaro, mirando hacia abajo',
+      lowangle: 'filmada desde un contrapicado dramático mirando hacia arriba',
+      pov: 'desde una perspectiva subjetiva en primera persona',
+    },
+    motions: { pan: 'paneo suave', tilt: 'inclinación vertical', zoomin: 'acercamiento lento', zoomout: 'alejamiento revelador', orbit: 'órbita de 360 grados', dolly: 'travelling hacia delante' },
+    atmospheres: { volumetric: 'luz volumétrica', neon: 'brillo de neón', fog: 'niebla etérea', rain: 'lluvia intensa', golden: 'luz de hora dorada', monochrome: 'cine negro en blanco y negro' },
+    camAngle: (angle) => `Escena ${angle}.`,
+    motionType: (motion) => `La animación usa un movimiento de ${motion}.`,
+    atmosphere: (effects) => `Con efectos atmosféricos de ${listOf(effects, 'y')}.`,
+    slow: 'La animación debe ser muy lenta, pausada y serena.',
+    fast: 'La animación debe ser rápida, enérgica y dinámica.',
+    tempo: (bpm) => `El movimiento late a ${bpm} BPM, con los acentos de cámara sobre el pulso.`,
+    motionBlur: 'Aplica un desenfoque de movimiento cinematográfico realista.',
+    stabilization: 'Asegura un movimiento de cámara perfectamente estabilizado y sin vibraciones.',
+  },
+  {
+    id: 'fr',
+    name: 'Français',
+    camAngles: {
+      wide: 'filmée en plan large, depuis une perspective grand angle',
+      closeup: 'cadrée en gros plan intime avec un détail extrême',
+      birdseye: 'vue du ciel, en plongée totale',
+      lowangle: 'filmée en contre-plongée spectaculaire',
+      pov: 'en caméra subjective, à la première personne',
+    },
+    motions: { pan: 'panoramique fluide', tilt: 'panoramique vertical', zoomin: 'zoom avant lent', zoomout: 'zoom arrière révélateur', orbit: 'orbite à 360 degrés', dolly: 'travelling avant' },
+    atmospheres: { volumetric: 'lumière volumétrique', neon: 'néons éclatants', fog: 'brume éthérée', rain: 'pluie battante', golden: 'lumière d\'heure dorée', monochrome: 'noir et blanc contrasté de film noir' },
+    camAngle: (angle) => `Scène ${angle}.`,
+    motionType: (motion) => `L'animation utilise un mouvement de ${motion}.`,
+    atmosphere: (effects) => `Avec des effets atmosphériques : ${listOf(effects, 'et')}.`,
+    slow: 'L\'animation doit être très lente, posée et sereine.',
+    fast: 'L\'animation doit être rapide, énergique et dynamique.',
+    tempo: (bpm) => `Le mouvement bat à ${bpm} BPM, avec des accents de caméra sur le temps.`,
+    motionBlur: 'Applique un flou de mouvement cinématographique réaliste.',
+    stabilization: 'Garantis un mouvement de caméra parfaitement stabilisé, sans tremblement.',
+  },
+];
+
+/** The Director's Suite state of a fresh project. */
+// Older saved scenes may lack some settings, so SceneSettings makes them optional; the defaults always set them
+export const DEFAULT_SCENE_SETTINGS: SceneSettings & Required<Pick<SceneSettings,
+  'audioTimeline' | 'tempoHint' | 'promptVariables' | 'phrasebook' | 'negativePrompt' | 'seed' | 'seedLocked' | 'startImageEdit' | 'endImageEdit'
+>> = {
+  prompt: PRESETS[1].prompt,
+  activePreset: PRESETS[1].id,
+  isAdvancedMode: false,
+  camAngle: 'wide',
+  motionType: 'pan',
+  atmosphere: [],
+  speed: 1.0,
+  motionBlur: false,
+  stabilization: true,
+  selectedBgMusicId: 'none',
+  selectedSfxId: 'none',
+  bgMusicVolume: 0.5,
+  sfxVolume: 0.5,
+  audioTimeline: DEFAULT_AUDIO_TIMELINE,
+  tempoHint: false,
+  promptVariables: [],
+  phrasebook: 'standard',
+  negativePrompt: '',
+  seed: null,
+  seedLocked: false,
+  aspectRatio: '16:9',
+  resolution: '720p',
+  startImage: null,
+  endImage: null,
+  startImageEdit: null,
+  endImageEdit: null,
+};
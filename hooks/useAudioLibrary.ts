@@ -0,0 +1,87 @@
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { BG_MUSIC_LIBRARY, SFX_LIBRARY } from '../constants';
+import { evictAudioBuffer } from '../services/audioEngine';
+import { createAudioAsset, deleteAudioAsset, listAudioAssets, saveAudioAsset } from '../services/audioLibraryStore';
+import { evictTrackTempo } from '../services/beatDetection';
+import { AudioAsset, AudioCatalog, AudioKind, AudioOption } from '../types';
+
+/**
+ * Merges the built-in music and SFX libraries with the user's uploads, which persist in IndexedDB.
+ */
+const releaseUrl = (url: string) => {
+  URL.revokeObjectURL(url);
+  evictAudioBuffer(url);
+  evictTrackTempo(url);
+};
+
+export const useAudioLibrary = () => {
+  const [assets, setAssets] = useState<AudioAsset[]>([]);
+
+  useEffect(() => {
+    listAudioAssets()
+      .then(setAssets)
+      .catch(err => console.error("Failed to load the audio library", err));
+  }, []);
+
+  // One blob URL per asset for as long as it is in the library, so the decoded-audio and
+  // tempo caches keyed by URL stay valid; removed assets release theirs
+  const urlsRef = useRef(new Map<string, string>());
+  const [urls, setUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const map = urlsRef.current;
+    const ids = new Set(assets.map(a => a.id));
+    map.forEach((url, id) => {
+      if (ids.has(id)) return;
+      releaseUrl(url);
+      map.delete(id);
+    });
+    assets.forEach(a => { if (!map.has(a.id)) map.set(a.id, URL.createObjectURL(a.blob)); });
+    setUrls(Object.fromEntries(map));
+  }, [assets]);
+
+  useEffect(() => {
+    const map = urlsRef.current;
+    return () => {
+      map.forEach(releaseUrl);
+      map.clear();
+    };
+  }, []);
+
+  const catalog = useMemo<AudioCatalog>(() => {
+    const toOption = (asset: AudioAsset): AudioOption => ({
+      id: asset.id,
+      name: asset.name,
+      icon: asset.kind === 'music' ? '🎵' : '🔊',
+      url: urls[asset.id],
+      duration: asset.duration,
+      peaks: asset.peaks,
+      custom: true
+    });
+    const ready = assets.filter(a => urls[a.id]);
+    return {
+      music: [...BG_MUSIC_LIBRARY, ...ready.filter(a => a.kind === 'music').map(toOption)],
+      sfx: [...SFX_LIBRARY, ...ready.filter(a => a.kind === 'sfx').map(toOption)]
+    };
+  }, [assets, urls]);
+
+  /** Throws when the file cannot be decoded so the caller can tell the user. */
+  const add = useCallback(async (file: File, kind: AudioKind) => {
+    const asset = await createAudioAsset(file, kind);
+    await saveAudioAsset(asset);
+    setAssets(prev => [...prev, asset]);
+    return asset;
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteAudioAsset(id);
+      setAssets(prev => prev.filter(a => a.id !== id));
+    } catch (err) {
+      console.error("Failed to delete audio from the library", err);
+    }
+  }, []);
+
+  return { catalog, add, remove };
+};
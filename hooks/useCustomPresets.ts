@@ -0,0 +1,41 @@
+
+import { useCallback, useEffect, useState } from 'react';
+import { loadCustomPresets, parsePresetPack, saveCustomPresets } from '../services/presetStore';
+import { CustomPreset, PresetSettings } from '../types';
+
+const createPresetId = () => `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+/**
+ * The user's saved presets, persisted to localStorage.
+ */
+export const useCustomPresets = () => {
+  const [presets, setPresets] = useState<CustomPreset[]>(loadCustomPresets);
+
+  useEffect(() => {
+    saveCustomPresets(presets);
+  }, [presets]);
+
+  const add = useCallback((name: string, icon: string, category: string, settings: PresetSettings) => {
+    const preset: CustomPreset = { id: createPresetId(), name, icon, category, settings, createdAt: Date.now() };
+    setPresets(prev => [...prev, preset]);
+    return preset;
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setPresets(prev => prev.filter(p => p.id !== id));
+  }, []);
+
+  /** Presets already in the library (same id) are updated in place. Returns how many were imported. */
+  const importPack = useCallback(async (file: Blob) => {
+    const pack = await parsePresetPack(file);
+    setPresets(prev => {
+      const incoming = new Map(pack.presets.map(p => [p.id, p]));
+      const updated = prev.map(p => incoming.get(p.id) ?? p);
+      const added = pack.presets.filter(p => !prev.some(existing => existing.id === p.id));
+      return [...updated, ...added];
+    });
+    return pack.presets.length;
+  }, []);
+
+  return { presets, add, remove, importPack };
+};
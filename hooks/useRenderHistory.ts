@@ -0,0 +1,37 @@
+
+import { useCallback, useEffect, useState } from 'react';
+import { deleteRender, listRenders, saveRender } from '../services/historyStore';
+import { RenderHistoryEntry } from '../types';
+
+/**
+ * Loads the persisted render history and keeps it in sync with IndexedDB.
+ */
+export const useRenderHistory = () => {
+  const [entries, setEntries] = useState<RenderHistoryEntry[]>([]);
+
+  useEffect(() => {
+    listRenders()
+      .then(setEntries)
+      .catch(err => console.error("Failed to load render history", err));
+  }, []);
+
+  const add = useCallback(async (entry: RenderHistoryEntry) => {
+    try {
+      await saveRender(entry);
+      setEntries(prev => [entry, ...prev.filter(e => e.id !== entry.id)]);
+    } catch (err) {
+      console.error("Failed to save render to history", err);
+    }
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteRender(id);
+      setEntries(prev => prev.filter(e => e.id !== id));
+    } catch (err) {
+      console.error("Failed to delete render from history", err);
+    }
+  }, []);
+
+  return { entries, add, remove };
+};
@@ -0,0 +1,259 @@
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { estimateRenderDuration, recordRenderDuration } from '../services/durationStats';
+import { classifyError, ERROR_GUIDANCE, GenerationError } from '../services/errors';
+import { generateVideo, getProvider, resumeVideo } from '../services/generationService';
+import { deletePendingOperation, listPendingOperations, savePendingOperation } from '../services/operationStore';
+import { GenerationParams, GenerationProgressEvent, GenerationResult, RenderJob, RenderSequenceRef, SceneSettings } from '../types';
+
+const LOADING_MESSAGES = [
+  "Analyzing your frames...",
+  "Synthesizing background textures...",
+  "Applying temporal coherence...",
+  "Gemini is dreaming up your video...",
+  "Optimizing cinematic motion...",
+  "Finalizing rendering pass...",
+];
+
+interface RenderQueueOptions {
+  concurrency: number;
+  timeoutMs: number;
+  onJobError?: (job: RenderJob, err: GenerationError) => void;
+  onJobComplete?: (job: RenderJob, result: GenerationResult) => void;
+  onJobsResumed?: (jobs: RenderJob[]) => void;
+}
+
+const createJobId = () => `job-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+const forgetOperation = (jobId: string) => {
+  deletePendingOperation(jobId).catch(err => console.error("Failed to clear pending operation", err));
+};
+
+/**
+ * Keeps a list of render jobs and runs up to `concurrency` of them at a time.
+ * Cancelled jobs are detached from their in-flight request and their result is discarded.
+ * Submitted operations are persisted so that polling resumes after a page reload.
+ */
+export const useRenderQueue = ({ concurrency, timeoutMs, onJobError, onJobComplete, onJobsResumed }: RenderQueueOptions) => {
+  const [jobs, setJobs] = useState<RenderJob[]>([]);
+  // Maps a running job id to the token of its current attempt, so late results
+  // from a cancelled attempt never overwrite a retried one.
+  const runningRef = useRef<Map<string, number>>(new Map());
+  const nextTokenRef = useRef(0);
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+  const timeoutMsRef = useRef(timeoutMs);
+  timeoutMsRef.current = timeoutMs;
+  const onJobErrorRef = useRef(onJobError);
+  onJobErrorRef.current = onJobError;
+  const onJobCompleteRef = useRef(onJobComplete);
+  onJobCompleteRef.current = onJobComplete;
+  const onJobsResumedRef = useRef(onJobsResumed);
+  onJobsResumedRef.current = onJobsResumed;
+  const hasResumedRef = useRef(false);
+  const unmountedRef = useRef(false);
+
+  const updateJob = useCallback((id: string, patch: Partial<RenderJob>) => {
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...patch } : job));
+  }, []);
+
+  const runJob = useCallback(async (job: RenderJob) => {
+    const token = ++nextTokenRef.current;
+    const isCurrent = () => runningRef.current.get(job.id) === token;
+    runningRef.current.set(job.id, token);
+    const controller = new AbortController();
+    controllersRef.current.set(job.id, controller);
+
+    // Resumed jobs keep counting from their original submission
+    const startedAt = job.operationName && job.startedAt ? job.startedAt : Date.now();
+    const estimatedMs = estimateRenderDuration(getProvider().id, job.params.resolution);
+    updateJob(job.id, {
+      phase: 'running',
+      isGenerating: true,
+      status: LOADING_MESSAGES[0],
+      progress: 0,
+      error: undefined,
+      errorCode: undefined,
+      startedAt,
+      estimatedMs
+    });
+
+    const handleProgress = (event: GenerationProgressEvent) => {
+      if (!isCurrent()) return;
+      if (event.stage === 'submitted' && event.operationName) {
+        savePendingOperation({
+          jobId: job.id,
+          backend: getProvider().id,
+          operationName: event.operationName,
+          label: job.label,
+          params: job.params,
+          settings: job.settings,
+          sequence: job.sequence,
+          submittedAt: startedAt
+        }).catch(err => console.error("Failed to persist pending operation", err));
+      }
+      updateJob(job.id, {
+        status: event.retry
+          ? `${ERROR_GUIDANCE[event.retry.errorCode].title}, retrying (${event.retry.count}/${event.retry.max})...`
+          : LOADING_MESSAGES[event.attempt % LOADING_MESSAGES.length],
+        progress: event.progress,
+        ...(event.operationName ? { operationName: event.operationName } : {})
+      });
+    };
+
+    const runOptions = {
+      onProgress: handleProgress,
+      signal: controller.signal,
+      timeoutMs: timeoutMsRef.current,
+      startedAt,
+      estimatedDurationMs: estimatedMs
+    };
+
+    try {
+      const result = job.operationName
+        ? await resumeVideo(job.operationName, job.params, runOptions)
+        : await generateVideo(job.params, runOptions);
+      forgetOperation(job.id);
+
+      if (!isCurrent()) return;
+      recordRenderDuration(getProvider().id, job.params.resolution, Date.now() - startedAt);
+      updateJob(job.id, {
+        phase: 'complete',
+        isGenerating: false,
+        status: 'Generation complete!',
+        progress: 100,
+        videoUrl: URL.createObjectURL(result.blob)
+      });
+      onJobCompleteRef.current?.(job, result);
+    } catch (err) {
+      if (!isCurrent()) return;
+      forgetOperation(job.id);
+      console.error(err);
+      const error = classifyError(err);
+      onJobErrorRef.current?.(job, error);
+      updateJob(job.id, {
+        phase: 'failed',
+        isGenerating: false,
+        status: ERROR_GUIDANCE[error.code].title,
+        progress: 0,
+        error: error.message,
+        errorCode: error.code
+      });
+    } finally {
+      if (isCurrent()) {
+        runningRef.current.delete(job.id);
+        controllersRef.current.delete(job.id);
+      }
+      // Trigger the scheduler again now that a slot has been freed
+      if (!unmountedRef.current) setJobs(prev => [...prev]);
+    }
+  }, [updateJob]);
+
+  // Stop polling when the queue unmounts. Saved operations stay saved, so they resume next time.
+  useEffect(() => {
+    unmountedRef.current = false;
+    const running = runningRef.current;
+    const controllers = controllersRef.current;
+    return () => {
+      unmountedRef.current = true;
+      running.clear();
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+    };
+  }, []);
+
+  // Pick up operations that were still in flight when the page was last closed
+  useEffect(() => {
+    if (hasResumedRef.current) return;
+    hasResumedRef.current = true;
+    listPendingOperations()
+      .then(operations => {
+        const backend = getProvider().id;
+        // Another backend can't poll these operations, so they would never finish
+        operations.filter(op => op.backend !== backend).forEach(op => {
+          console.warn(`Dropping a pending "${op.label}" render submitted with the ${op.backend} backend`);
+          forgetOperation(op.jobId);
+        });
+        const resumed: RenderJob[] = operations
+          .filter(op => op.backend === backend)
+          .map(op => ({
+            id: op.jobId,
+            label: op.label,
+            params: op.params,
+            settings: op.settings,
+            sequence: op.sequence,
+            operationName: op.operationName,
+            phase: 'queued',
+            createdAt: op.submittedAt,
+            startedAt: op.submittedAt,
+            isGenerating: false,
+            status: 'Resuming...',
+            progress: 0
+          }));
+        if (resumed.length === 0 || unmountedRef.current) return;
+        setJobs(prev => [...resumed.filter(r => !prev.some(j => j.id === r.id)), ...prev]);
+        onJobsResumedRef.current?.(resumed);
+      })
+      .catch(err => console.error("Failed to load pending operations", err));
+  }, []);
+
+  // Scheduler: promote queued jobs while there are free slots
+  useEffect(() => {
+    const freeSlots = concurrency - runningRef.current.size;
+    if (freeSlots <= 0) return;
+    jobs
+      .filter(job => job.phase === 'queued' && !runningRef.current.has(job.id))
+      .slice(0, freeSlots)
+      .forEach(job => { runJob(job); });
+  }, [jobs, concurrency, runJob]);
+
+  const enqueue = useCallback((params: GenerationParams, label: string, settings?: SceneSettings, sequence?: RenderSequenceRef) => {
+    const job: RenderJob = {
+      id: createJobId(),
+      label,
+      params,
+      settings,
+      sequence,
+      phase: 'queued',
+      createdAt: Date.now(),
+      isGenerating: false,
+      status: 'Queued',
+      progress: 0
+    };
+    setJobs(prev => [...prev, job]);
+    return job.id;
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    runningRef.current.delete(id);
+    controllersRef.current.get(id)?.abort();
+    controllersRef.current.delete(id);
+    forgetOperation(id);
+    setJobs(prev => prev.map(job =>
+      job.id === id && (job.phase === 'queued' || job.phase === 'running')
+        ? { ...job, phase: 'cancelled', isGenerating: false, status: 'Cancelled', progress: 0, errorCode: 'cancelled' }
+        : job
+    ));
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    setJobs(prev => prev.map(job =>
+      job.id === id && (job.phase === 'failed' || job.phase === 'cancelled')
+        ? { ...job, phase: 'queued', status: 'Queued', progress: 0, error: undefined, errorCode: undefined, operationName: undefined }
+        : job
+    ));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    runningRef.current.delete(id);
+    controllersRef.current.get(id)?.abort();
+    controllersRef.current.delete(id);
+    forgetOperation(id);
+    setJobs(prev => {
+      const job = prev.find(j => j.id === id);
+      if (job?.videoUrl) URL.revokeObjectURL(job.videoUrl);
+      return prev.filter(j => j.id !== id);
+    });
+  }, []);
+
+  return { jobs, enqueue, cancel, retry, remove };
+};
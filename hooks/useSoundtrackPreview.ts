@@ -0,0 +1,99 @@
+
+import { RefObject, useEffect, useRef, useState } from 'react';
+import { hasSoundtrack, loadSoundtrack, scheduleSoundtrack, SoundtrackBuffers, SoundtrackMix, soundtrackUrls } from '../services/audioEngine';
+import { classifyError } from '../services/errors';
+
+const LOOKAHEAD_S = 0.03;
+const DRIFT_TOLERANCE_S = 0.08;
+
+/**
+ * Plays a soundtrack mix in lockstep with a video element. The mix is scheduled on the
+ * Web Audio clock from the video's currentTime and playback rate, and rescheduled on seeks,
+ * rate changes, loops and drift.
+ * Returns why the mix couldn't be loaded, if it couldn't, so the preview isn't silently mute.
+ */
+export const useSoundtrackPreview = (videoRef: RefObject<HTMLVideoElement>, videoUrl: string | undefined, mix: SoundtrackMix) => {
+  const contextRef = useRef<AudioContext | null>(null);
+  const [buffers, setBuffers] = useState<SoundtrackBuffers | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const urlKey = soundtrackUrls(mix).join('|');
+  const mixKey = JSON.stringify(mix);
+
+  useEffect(() => () => {
+    contextRef.current?.close().catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    setError(null);
+    if (!hasSoundtrack(mix)) {
+      setBuffers(null);
+      return;
+    }
+    let cancelled = false;
+    const audioContext = contextRef.current ?? (contextRef.current = new AudioContext());
+    loadSoundtrack(audioContext, mix)
+      .then(loaded => { if (!cancelled) setBuffers(loaded); })
+      .catch(err => {
+        console.warn("Failed to load the soundtrack preview", err);
+        if (cancelled) return;
+        setBuffers(null);
+        setError(classifyError(err).message);
+      });
+    return () => { cancelled = true; };
+  }, [urlKey]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    const audioContext = contextRef.current;
+    if (!video || !audioContext || !buffers) return;
+
+    let stop: (() => void) | null = null;
+    let anchor = { video: 0, audio: 0, rate: 1 };
+
+    const halt = () => {
+      stop?.();
+      stop = null;
+    };
+
+    const start = () => {
+      halt();
+      if (video.paused || video.ended || !isFinite(video.duration) || video.playbackRate <= 0) return;
+      audioContext.resume().catch(() => {});
+      const rate = video.playbackRate;
+      anchor = { video: video.currentTime + LOOKAHEAD_S * rate, audio: audioContext.currentTime + LOOKAHEAD_S, rate };
+      stop = scheduleSoundtrack(audioContext, audioContext.destination, mix, buffers, {
+        from: anchor.video,
+        when: anchor.audio,
+        duration: video.duration,
+        rate
+      });
+    };
+
+    // Looping restarts currentTime without a seek event, so a jump shows up as drift
+    const checkDrift = () => {
+      if (!stop) return;
+      const expected = anchor.video + (audioContext.currentTime - anchor.audio) * anchor.rate;
+      if (Math.abs(expected - video.currentTime) > DRIFT_TOLERANCE_S) start();
+    };
+
+    video.addEventListener('playing', start);
+    video.addEventListener('seeked', start);
+    video.addEventListener('ratechange', start);
+    video.addEventListener('pause', halt);
+    video.addEventListener('ended', halt);
+    video.addEventListener('timeupdate', checkDrift);
+    start();
+
+    return () => {
+      video.removeEventListener('playing', start);
+      video.removeEventListener('seeked', start);
+      video.removeEventListener('ratechange', start);
+      video.removeEventListener('pause', halt);
+      video.removeEventListener('ended', halt);
+      video.removeEventListener('timeupdate', checkDrift);
+      halt();
+    };
+  }, [buffers, mixKey, videoUrl]);
+
+  return error;
+};
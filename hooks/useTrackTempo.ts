@@ -0,0 +1,26 @@
+
+import { useEffect, useState } from 'react';
+import { analyzeTrackTempo } from '../services/beatDetection';
+import { TempoAnalysis } from '../types';
+
+/**
+ * Runs local beat detection on the selected music track whenever it changes.
+ */
+export const useTrackTempo = (url: string | undefined) => {
+  const [analysis, setAnalysis] = useState<TempoAnalysis | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  useEffect(() => {
+    setAnalysis(null);
+    if (!url) return;
+    let cancelled = false;
+    setIsAnalyzing(true);
+    analyzeTrackTempo(url)
+      .then(result => { if (!cancelled) setAnalysis(result); })
+      .catch(err => console.warn("Beat detection failed", err))
+      .finally(() => { if (!cancelled) setIsAnalyzing(false); });
+    return () => { cancelled = true; };
+  }, [url]);
+
+  return { analysis, isAnalyzing };
+};
@@ -0,0 +1,191 @@
+
+import { BG_MUSIC_LIBRARY, DEFAULT_AUDIO_TIMELINE, SFX_LIBRARY } from '../constants';
+import { AudioCatalog, AudioTimeline, SceneSettings } from '../types';
+import { GenerationError } from './errors';
+
+/** Audio sources resolved to URLs and final gains, ready to be scheduled against a video. */
+export interface SoundtrackMix {
+  music?: { url: string; volume: number };
+  sfxBed?: { url: string; volume: number }; // looping SFX, only used when the timeline has no cues
+  cues: { at: number; url: string; volume: number }[];
+  timeline: AudioTimeline;
+}
+
+export type SoundtrackBuffers = Map<string, AudioBuffer>;
+
+export interface ScheduleWindow {
+  from: number;     // video time (s) that lines up with `when`
+  when: number;     // AudioContext time (s) at which `from` plays
+  duration: number; // total video length (s); everything stops there
+  rate?: number;    // video playback rate; audio is sped up to match (default 1)
+}
+
+const DUCK_ATTACK = 0.05;
+const DUCK_RELEASE = 0.3;
+
+const bufferCache = new Map<string, Promise<AudioBuffer>>();
+
+/**
+ * Fetches and decodes an audio file once per URL; failed loads are evicted so they can be retried.
+ * Remote tracks are fetched with CORS, so their host has to allow cross-origin requests.
+ */
+export const loadAudioBuffer = (audioContext: BaseAudioContext, url: string): Promise<AudioBuffer> => {
+  let pending = bufferCache.get(url);
+  if (!pending) {
+    pending = fetch(url)
+      .catch(err => {
+        // fetch rejects outright only when the request fails or the response is blocked by CORS
+        const host = url.startsWith('http') ? new URL(url).host : 'the file';
+        throw new Error(`${host} could not be reached or does not allow cross-origin requests: ${err?.message ?? err}`);
+      })
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.arrayBuffer();
+      })
+      .then(data => audioContext.decodeAudioData(data))
+      .catch(err => {
+        bufferCache.delete(url);
+        throw new GenerationError('network', `Could not load an audio track (${err?.message ?? err}).`);
+      });
+    bufferCache.set(url, pending);
+  }
+  return pending;
+};
+
+/** Drops the decoded audio for a URL that is about to be revoked. */
+export const evictAudioBuffer = (url: string) => {
+  bufferCache.delete(url);
+};
+
+export const soundtrackUrls = (mix: SoundtrackMix) =>
+  Array.from(new Set([mix.music?.url, mix.sfxBed?.url, ...mix.cues.map(c => c.url)].filter((url): url is string => !!url)));
+
+export const hasSoundtrack = (mix: SoundtrackMix) => soundtrackUrls(mix).length > 0;
+
+export const loadSoundtrack = async (audioContext: BaseAudioContext, mix: SoundtrackMix): Promise<SoundtrackBuffers> => {
+  const urls = soundtrackUrls(mix);
+  const buffers = await Promise.all(urls.map(url => loadAudioBuffer(audioContext, url)));
+  return new Map(urls.map((url, i) => [url, buffers[i]]));
+};
+
+/**
+ * Resolves the Audio Mixing selections and timeline of a scene into a schedulable mix.
+ * Selections missing from the catalog (e.g. a deleted upload) are left out.
+ */
+export const resolveSoundtrack = (
+  settings: Pick<SceneSettings, 'selectedBgMusicId' | 'selectedSfxId' | 'bgMusicVolume' | 'sfxVolume' | 'audioTimeline'>,
+  catalog: AudioCatalog = { music: BG_MUSIC_LIBRARY, sfx: SFX_LIBRARY }
+): SoundtrackMix => {
+  const timeline = settings.audioTimeline ?? DEFAULT_AUDIO_TIMELINE;
+  const musicUrl = catalog.music.find(a => a.id === settings.selectedBgMusicId)?.url;
+  const sfxUrl = catalog.sfx.find(a => a.id === settings.selectedSfxId)?.url;
+  return {
+    music: musicUrl && settings.bgMusicVolume > 0 ? { url: musicUrl, volume: settings.bgMusicVolume } : undefined,
+    sfxBed: timeline.cues.length === 0 && sfxUrl && settings.sfxVolume > 0 ? { url: sfxUrl, volume: settings.sfxVolume } : undefined,
+    cues: timeline.cues
+      .map(cue => ({ at: cue.at, url: catalog.sfx.find(a => a.id === cue.sfxId)?.url ?? '', volume: cue.volume * settings.sfxVolume }))
+      .filter(cue => cue.url && cue.volume > 0),
+    timeline
+  };
+};
+
+/** Music gain at video time `t`: the bed's fades multiplied by the deepest active duck. */
+const musicGainAt = (mix: SoundtrackMix, cueSpans: [number, number][], duration: number, t: number) => {
+  const { musicOffset, fadeIn, fadeOut, duckLevel } = mix.timeline;
+  if (t < musicOffset) return 0;
+  let fade = 1;
+  if (fadeIn > 0) fade = Math.min(fade, (t - musicOffset) / fadeIn);
+  if (fadeOut > 0) fade = Math.min(fade, (duration - t) / fadeOut);
+
+  let duck = 1;
+  cueSpans.forEach(([start, end]) => {
+    if (t >= start && t <= end) duck = Math.min(duck, duckLevel);
+    else if (t > start - DUCK_ATTACK && t < start) duck = Math.min(duck, 1 - (1 - duckLevel) * (t - start + DUCK_ATTACK) / DUCK_ATTACK);
+    else if (t > end && t < end + DUCK_RELEASE) duck = Math.min(duck, duckLevel + (1 - duckLevel) * (t - end) / DUCK_RELEASE);
+  });
+
+  return mix.music!.volume * Math.max(fade, 0) * duck;
+};
+
+/**
+ * Schedules the whole mix on `audioContext` starting at `window.when`, aligned so that
+ * `window.from` seconds of video play at that instant. Everything is placed on the audio clock,
+ * so cues land sample-accurately regardless of main-thread jitter. At a `rate` other than 1 every
+ * source plays that much faster and video time maps onto the audio clock scaled by it.
+ * Returns a function that stops it all.
+ */
+export const scheduleSoundtrack = (
+  audioContext: BaseAudioContext,
+  destination: AudioNode,
+  mix: SoundtrackMix,
+  buffers: SoundtrackBuffers,
+  { from, when, duration, rate = 1 }: ScheduleWindow
+): (() => void) => {
+  const sources: AudioBufferSourceNode[] = [];
+  // AudioContext time at which video time `t` plays
+  const at = (t: number) => when + (t - from) / rate;
+  const endAt = at(Math.max(duration, from));
+
+  const createVoice = (buffer: AudioBuffer) => {
+    const source = audioContext.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = rate;
+    const gain = audioContext.createGain();
+    source.connect(gain).connect(destination);
+    sources.push(source);
+    return { source, gain };
+  };
+
+  const cueSpans: [number, number][] = [];
+  mix.cues.forEach(cue => {
+    const buffer = buffers.get(cue.url);
+    if (!buffer) return;
+    const end = Math.min(cue.at + buffer.duration, duration);
+    cueSpans.push([cue.at, end]);
+    if (end <= from || cue.at >= duration) return;
+    const { source, gain } = createVoice(buffer);
+    gain.gain.value = cue.volume;
+    source.start(at(Math.max(cue.at, from)), Math.max(from - cue.at, 0));
+    source.stop(endAt);
+  });
+
+  const musicBuffer = mix.music && buffers.get(mix.music.url);
+  if (musicBuffer) {
+    const { musicTrimStart, musicTrimEnd, musicOffset, fadeIn, fadeOut } = mix.timeline;
+    const loopStart = Math.min(musicTrimStart, musicBuffer.duration);
+    const loopEnd = Math.min(musicTrimEnd ?? musicBuffer.duration, musicBuffer.duration);
+    if (loopEnd - loopStart > 0.01 && musicOffset < duration) {
+      const { source, gain } = createVoice(musicBuffer);
+      source.loop = true;
+      source.loopStart = loopStart;
+      source.loopEnd = loopEnd;
+
+      // Ramp between every point where the envelope changes slope
+      const breakpoints = [musicOffset, musicOffset + fadeIn, duration - fadeOut, duration];
+      cueSpans.forEach(([start, end]) => breakpoints.push(start - DUCK_ATTACK, start, end, end + DUCK_RELEASE));
+      gain.gain.setValueAtTime(musicGainAt(mix, cueSpans, duration, from), when);
+      Array.from(new Set(breakpoints))
+        .filter(t => t > from && t <= duration)
+        .sort((a, b) => a - b)
+        .forEach(t => gain.gain.linearRampToValueAtTime(musicGainAt(mix, cueSpans, duration, t), at(t)));
+
+      const bedTime = Math.max(from - musicOffset, 0);
+      source.start(at(Math.max(musicOffset, from)), loopStart + bedTime % (loopEnd - loopStart));
+      source.stop(endAt);
+    }
+  }
+
+  const bedBuffer = mix.sfxBed && buffers.get(mix.sfxBed.url);
+  if (bedBuffer) {
+    const { source, gain } = createVoice(bedBuffer);
+    source.loop = true;
+    gain.gain.value = mix.sfxBed!.volume;
+    source.start(when, from % bedBuffer.duration);
+    source.stop(endAt);
+  }
+
+  return () => sources.forEach(source => {
+    try { source.stop(); } catch { /* never started */ }
+    source.disconnect();
+  });
+};
@@ -0,0 +1,54 @@
+
+import { AudioAsset, AudioKind } from '../types';
+import { getAll, put, remove, STORES } from './db';
+
+const PEAK_BUCKETS = 48;
+
+/**
+ * Returns all uploaded audio, oldest first so the pickers keep a stable order.
+ */
+export const listAudioAssets = async (): Promise<AudioAsset[]> => {
+  const assets = await getAll<AudioAsset>(STORES.audio);
+  return assets.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveAudioAsset = (asset: AudioAsset) => put(STORES.audio, asset);
+
+export const deleteAudioAsset = (id: string) => remove(STORES.audio, id);
+
+const computePeaks = (buffer: AudioBuffer) => {
+  const samples = buffer.getChannelData(0);
+  const bucketSize = Math.max(Math.floor(samples.length / PEAK_BUCKETS), 1);
+  const peaks: number[] = [];
+  for (let b = 0; b < PEAK_BUCKETS; b++) {
+    let max = 0;
+    const end = Math.min((b + 1) * bucketSize, samples.length);
+    for (let i = b * bucketSize; i < end; i++) max = Math.max(max, Math.abs(samples[i]));
+    peaks.push(max);
+  }
+  const loudest = Math.max(...peaks, 0.0001);
+  return peaks.map(p => p / loudest);
+};
+
+/**
+ * Decodes an uploaded file to measure its duration and waveform before it is stored.
+ */
+export const createAudioAsset = async (file: File, kind: AudioKind): Promise<AudioAsset> => {
+  const decoder = new OfflineAudioContext(1, 1, 44100);
+  let buffer: AudioBuffer;
+  try {
+    buffer = await decoder.decodeAudioData(await file.arrayBuffer());
+  } catch {
+    throw new Error(`"${file.name}" is not an audio format this browser can play.`);
+  }
+  return {
+    id: `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+    kind,
+    name: file.name.replace(/\.[^.]+$/, ''),
+    blob: file,
+    mimeType: file.type || 'audio/mpeg',
+    duration: buffer.duration,
+    peaks: computePeaks(buffer),
+    createdAt: Date.now()
+  };
+};
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MAX_SEED } from '../constants';
+import { AudioCatalog } from '../types';
+import { BatchManifestError, parseBatchManifest } from './batchManifest';
+
+const catalog: AudioCatalog = {
+  music: [
+    { id: 'lofi', name: 'Lo-Fi Beats', icon: '🎧', url: 'https://example.com/lofi.mp3' },
+    { id: 'silent', name: 'No URL', icon: '🔇', url: '' }
+  ],
+  sfx: []
+};
+
+const image = (name: string, type = 'image/png') => new File(['pixels'], name, { type });
+const csv = (text: string) => new File([text], 'manifest.csv', { type: 'text/csv' });
+
+// Node has no FileReader; valid rows read their images into data URLs through it
+class FakeFileReader {
+  result: string | null = null;
+  error = null;
+  onloadend: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  readAsDataURL(blob: Blob) {
+    blob.arrayBuffer().then(buffer => {
+      this.result = `data:${blob.type};base64,${Buffer.from(buffer).toString('base64')}`;
+      this.onloadend?.();
+    });
+  }
+}
+
+beforeEach(() => vi.stubGlobal('FileReader', FakeFileReader));
+afterEach(() => vi.unstubAllGlobals());
+
+describe('parseBatchManifest', () => {
+  it('turns a valid row into generation params', async () => {
+    const [row] = await parseBatchManifest(
+      csv('Start Image,End,Prompt,Negative Prompt,Seed,Aspect Ratio,Resolution,Music,Music Volume\na.png,b.png,Waves,blur,42,9:16,1080p,Lo-Fi Beats,0.3'),
+      [image('a.png'), image('b.png')],
+      catalog
+    );
+    expect(row.status).toBe('pending');
+    expect(row.errors).toEqual([]);
+    expect(row.params).toMatchObject({ prompt: 'Waves', negativePrompt: 'blur', seed: 42, aspectRatio: '9:16', resolution: '1080p' });
+    expect(row.params?.startImage).toMatch(/^data:image\/png;base64,/);
+    expect(row.params?.endImage).toMatch(/^data:image\/png;base64,/);
+    expect(row.music).toEqual({ id: 'lofi', volume: 0.3 });
+  });
+
+  it('fills in the default format and leaves optional columns out', async () => {
+    const [row] = await parseBatchManifest(csv('start,prompt\na.png,Waves'), [image('a.png')], catalog);
+    expect(row.params).toMatchObject({ aspectRatio: '16:9', resolution: '720p', endImage: undefined, negativePrompt: undefined, seed: undefined });
+    expect(row.music).toBeUndefined();
+  });
+
+  it('keeps invalid rows with every problem listed', async () => {
+    const rows = await parseBatchManifest(
+      csv(`start,end,prompt,seed,aspectRatio,resolution,music,musicVolume\nmissing.png,notes.txt,,${MAX_SEED + 1},4:3,4k,Jazz,2\na.png,,Waves,,,,,`),
+      [image('a.png'), image('notes.txt', 'text/plain')],
+      catalog
+    );
+    expect(rows.map(r => r.status)).toEqual(['invalid', 'pending']);
+    expect(rows[0].params).toBeUndefined();
+    expect(rows[0].errors).toEqual([
+      'start should be an uploaded image ("missing.png" was not found)',
+      'end should be an image file ("notes.txt" is text/plain)',
+      'prompt should be a non-empty prompt',
+      'aspectRatio should be one of 16:9, 9:16',
+      'resolution should be one of 720p, 1080p',
+      `seed should be a whole number between 0 and ${MAX_SEED}`,
+      'music should be a track in the music library ("Jazz" was not found)',
+      'musicVolume should be a number between 0 and 1'
+    ]);
+  });
+
+  it('rejects a music track without a playable URL', async () => {
+    const [row] = await parseBatchManifest(csv('start,prompt,music\na.png,Waves,silent'), [image('a.png')], catalog);
+    expect(row.errors).toEqual(['music should be a track in the music library ("silent" was not found)']);
+  });
+
+  it('matches images by relative path before bare name and flags ambiguous names', async () => {
+    const nested = (path: string) => Object.assign(image(path.split('/').pop()!), { webkitRelativePath: `frames/${path}` });
+    const images = [nested('day/a.png'), nested('night/a.png')];
+    const [byPath, byName] = await parseBatchManifest(csv('start,prompt\n./night/a.png,Waves\na.png,Waves'), images, catalog);
+    expect(byPath.status).toBe('pending');
+    expect(byName.errors).toEqual(['start should be a unique path ("a.png" matches 2 images)']);
+  });
+
+  it('reads JSON manifests as a list or under `rows`', async () => {
+    const json = (value: unknown) => new File([JSON.stringify(value)], 'manifest.json', { type: 'application/json' });
+    const [listed] = await parseBatchManifest(json([{ start: 'a.png', prompt: 'Waves', seed: 7 }]), [image('a.png')], catalog);
+    expect(listed.params?.seed).toBe(7);
+    const [nested] = await parseBatchManifest(json({ rows: [{ start: 'a.png', prompt: 'Waves' }] }), [image('a.png')], catalog);
+    expect(nested.status).toBe('pending');
+  });
+
+  it('rejects manifests it cannot read', async () => {
+    await expect(parseBatchManifest(csv(''), [], catalog)).rejects.toThrow(BatchManifestError);
+    await expect(parseBatchManifest(csv('prompt\nWaves'), [], catalog)).rejects.toThrow(/needs a `start` column/);
+    await expect(parseBatchManifest(csv('start,prompt\n'), [], catalog)).rejects.toThrow(/no rows/);
+    await expect(parseBatchManifest(new File(['{"rows": 3}'], 'manifest.json'), [], catalog)).rejects.toThrow(/list of rows/);
+    await expect(parseBatchManifest(new File(['[oops'], 'manifest.json'), [], catalog)).rejects.toThrow(/Could not read the manifest/);
+  });
+});
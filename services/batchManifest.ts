@@ -0,0 +1,139 @@
+
+import { DEFAULT_SCENE_SETTINGS, MAX_SEED } from '../constants';
+import { AudioCatalog, BatchRow, GenerationParams } from '../types';
+import { parseCsv } from '../utils/csv';
+import { readFileAsDataUrl } from '../utils/media';
+import { Validator } from '../utils/validation';
+
+export class BatchManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BatchManifestError';
+  }
+}
+
+// Accepted spellings of each column, compared after lowercasing and dropping punctuation
+const COLUMN_ALIASES: Record<string, string[]> = {
+  start: ['start', 'startimage', 'startframe'],
+  end: ['end', 'endimage', 'endframe'],
+  prompt: ['prompt'],
+  negativePrompt: ['negativeprompt', 'negative'],
+  seed: ['seed'],
+  aspectRatio: ['aspectratio', 'ratio'],
+  resolution: ['resolution'],
+  music: ['music', 'musicid'],
+  musicVolume: ['musicvolume'],
+};
+
+const normalizeColumn = (name: string) => {
+  const key = name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return Object.keys(COLUMN_ALIASES).find(column => COLUMN_ALIASES[column].includes(key));
+};
+
+const toRecord = (entries: [string, unknown][]) => {
+  const record: Record<string, string> = {};
+  for (const [name, value] of entries) {
+    const column = normalizeColumn(name);
+    if (column) record[column] = value === null || value === undefined ? '' : String(value).trim();
+  }
+  return record;
+};
+
+/** Reads a CSV with a header row, or a JSON list of row objects (optionally under `rows`). */
+const readRecords = async (manifest: File): Promise<Record<string, string>[]> => {
+  const text = await manifest.text();
+  if (manifest.name.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text)) {
+    let raw: any;
+    try {
+      raw = JSON.parse(text);
+    } catch (err) {
+      throw new BatchManifestError(`Could not read the manifest (${(err as Error).message}).`);
+    }
+    const list = Array.isArray(raw) ? raw : raw?.rows;
+    if (!Array.isArray(list)) throw new BatchManifestError("A JSON manifest should be a list of rows, or an object with a `rows` list.");
+    return list.map(item => toRecord(typeof item === 'object' && item !== null ? Object.entries(item) : []));
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new BatchManifestError("The manifest is empty.");
+  if (!header.some(name => normalizeColumn(name) === 'start')) throw new BatchManifestError("The manifest needs a `start` column with the starting image of each row.");
+  return rows.map(cells => toRecord(header.map((name, i) => [name, cells[i]])));
+};
+
+/**
+ * Finds the uploaded images a manifest path refers to, by path relative to the chosen folder
+ * or, failing that, by bare file name.
+ */
+const indexImages = (images: File[]) => {
+  const byPath = new Map<string, File>();
+  const byName = new Map<string, File[]>();
+  for (const file of images) {
+    // Folder uploads report paths that start with the folder's own name
+    const relative = file.webkitRelativePath ? file.webkitRelativePath.split('/').slice(1).join('/') : file.name;
+    byPath.set(relative.toLowerCase(), file);
+    const name = file.name.toLowerCase();
+    byName.set(name, [...(byName.get(name) ?? []), file]);
+  }
+  return (path: string): File[] => {
+    const clean = path.replace(/\\/g, '/').replace(/^\.?\//, '').toLowerCase();
+    const exact = byPath.get(clean);
+    return exact ? [exact] : byName.get(clean.split('/').pop()!) ?? [];
+  };
+};
+
+const checkImage = (v: Validator, matches: File[], path: string, column: string) => {
+  if (!v.check(matches.length > 0, column, `an uploaded image ("${path}" was not found)`)) return;
+  if (!v.check(matches.length === 1, column, `a unique path ("${path}" matches ${matches.length} images)`)) return;
+  v.check(matches[0].type.startsWith('image/'), column, `an image file ("${path}" is ${matches[0].type || 'of unknown type'})`);
+};
+
+/**
+ * Reads a batch manifest and checks every row against `GenerationParams`, resolving image paths
+ * against the uploaded files and music against the audio library. Rows with problems are kept
+ * with status `invalid` and their errors, so the whole manifest can be reviewed at once.
+ */
+export const parseBatchManifest = async (manifest: File, images: File[], catalog: AudioCatalog): Promise<BatchRow[]> => {
+  const records = await readRecords(manifest);
+  if (records.length === 0) throw new BatchManifestError("The manifest has no rows.");
+  const findImage = indexImages(images);
+
+  return Promise.all(records.map(async (source, i): Promise<BatchRow> => {
+    const v = new Validator();
+    const start = source.start ?? '';
+    const end = source.end ?? '';
+    const aspectRatio = source.aspectRatio || DEFAULT_SCENE_SETTINGS.aspectRatio;
+    const resolution = source.resolution || DEFAULT_SCENE_SETTINGS.resolution;
+
+    const startMatches = start ? findImage(start) : [];
+    if (v.check(start !== '', 'start', 'an image path')) checkImage(v, startMatches, start, 'start');
+    const endMatches = end ? findImage(end) : [];
+    if (end) checkImage(v, endMatches, end, 'end');
+    v.check(!!source.prompt, 'prompt', 'a non-empty prompt');
+    v.oneOf(aspectRatio, 'aspectRatio', ['16:9', '9:16']);
+    v.oneOf(resolution, 'resolution', ['720p', '1080p']);
+    const seed = source.seed ? Number(source.seed) : undefined;
+    if (seed !== undefined) v.check(Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED, 'seed', `a whole number between 0 and ${MAX_SEED}`);
+
+    const musicName = (source.music ?? '').toLowerCase();
+    const track = musicName && musicName !== 'none'
+      ? catalog.music.find(a => a.id.toLowerCase() === musicName || a.name.toLowerCase() === musicName)
+      : undefined;
+    if (musicName && musicName !== 'none') v.check(!!track?.url, 'music', `a track in the music library ("${source.music}" was not found)`);
+    const volume = source.musicVolume ? Number(source.musicVolume) : DEFAULT_SCENE_SETTINGS.bgMusicVolume;
+    v.number(volume, 'musicVolume', 0, 1);
+
+    const row: BatchRow = { row: i + 1, source, errors: v.errors, status: 'invalid', progress: 0 };
+    if (v.errors.length > 0) return row;
+
+    const params: GenerationParams = {
+      prompt: source.prompt,
+      startImage: await readFileAsDataUrl(startMatches[0]),
+      endImage: end ? await readFileAsDataUrl(endMatches[0]) : undefined,
+      aspectRatio: aspectRatio as GenerationParams['aspectRatio'],
+      resolution: resolution as GenerationParams['resolution'],
+      negativePrompt: source.negativePrompt || undefined,
+      seed
+    };
+    return { ...row, params, music: track ? { id: track.id, volume } : undefined, status: 'pending' };
+  }));
+};
@@ -0,0 +1,90 @@
+
+import { AudioCatalog, BatchRow } from '../types';
+import { toCsv } from '../utils/csv';
+import { fileExtensionFor } from '../utils/media';
+import { createZip } from '../utils/zip';
+import { resolveSoundtrack } from './audioEngine';
+import { sleep } from './polling';
+import { exportSequence } from './sequenceExport';
+
+export interface BatchMixOptions {
+  catalog: AudioCatalog;
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+}
+
+/** Hands out submission slots at least `intervalMs` apart. */
+export const createRateLimiter = (intervalMs: number) => {
+  let nextSlot = 0;
+  return (signal: AbortSignal) => {
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + intervalMs;
+    return sleep(slot - now, signal);
+  };
+};
+
+/**
+ * Re-records a row's clip with its music track mixed in. Mixdowns play in real time,
+ * so each mixer runs them one at a time.
+ */
+export const createBatchMixer = () => {
+  let tail: Promise<unknown> = Promise.resolve();
+  return (row: BatchRow, clip: Blob, { catalog, signal, onProgress }: BatchMixOptions): Promise<{ blob: Blob; mimeType: string }> => {
+    const params = row.params!;
+    const music = row.music!;
+    const run = tail.then(async () => {
+      const url = URL.createObjectURL(clip);
+      try {
+        return await exportSequence([url], {
+          aspectRatio: params.aspectRatio,
+          resolution: params.resolution,
+          format: 'mp4',
+          crossfadeMs: 0,
+          soundtrack: resolveSoundtrack({ selectedBgMusicId: music.id, selectedSfxId: 'none', bgMusicVolume: music.volume, sfxVolume: 0 }, catalog),
+          onProgress: (progress) => onProgress?.(Math.round(progress * 100)),
+          signal
+        });
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    });
+    tail = run.catch(() => undefined);
+    return run;
+  };
+};
+
+/** Path of a row's clip inside the results archive. */
+export const batchClipName = (row: number, mimeType: string) =>
+  `clips/row-${String(row).padStart(3, '0')}.${fileExtensionFor(mimeType)}`;
+
+/**
+ * Zips the finished clips with `results.json` and `results.csv`, which list every manifest row
+ * with its status, clip path and errors.
+ */
+export const createBatchArchive = (manifestName: string, rows: BatchRow[]): Promise<Blob> => {
+  const results = rows.map(r => ({
+    row: r.row,
+    status: r.status,
+    file: r.fileName ?? null,
+    start: r.source.start ?? '',
+    end: r.source.end ?? '',
+    prompt: r.source.prompt ?? '',
+    negativePrompt: r.params?.negativePrompt ?? null,
+    seed: r.params?.seed ?? null,
+    aspectRatio: r.params?.aspectRatio ?? r.source.aspectRatio ?? '',
+    resolution: r.params?.resolution ?? r.source.resolution ?? '',
+    music: r.music?.id ?? null,
+    errors: r.errors
+  }));
+  const csv = toCsv([
+    ['row', 'status', 'file', 'start', 'end', 'prompt', 'negativePrompt', 'seed', 'aspectRatio', 'resolution', 'music', 'errors'],
+    ...results.map(r => [r.row, r.status, r.file ?? '', r.start, r.end, r.prompt, r.negativePrompt ?? '', r.seed ?? '', r.aspectRatio, r.resolution, r.music ?? '', r.errors.join('; ')])
+  ]);
+
+  return createZip([
+    ...rows.filter(r => r.result && r.fileName).map(r => ({ name: r.fileName!, data: r.result! })),
+    { name: 'results.json', data: JSON.stringify({ manifest: manifestName, generatedAt: new Date().toISOString(), rows: results }, null, 2) },
+    { name: 'results.csv', data: csv }
+  ]);
+};
@@ -0,0 +1,132 @@
+
+import { AudioTimeline, TempoAnalysis } from '../types';
+import { loadAudioBuffer } from './audioEngine';
+
+const HOP_SIZE = 512;
+const MIN_BPM = 60;
+const MAX_BPM = 180;
+// Tempos are folded into this octave so half/double-time readings of the same groove agree
+const PREFERRED_BPM: [number, number] = [80, 160];
+
+/** Half-wave rectified energy rise per hop: peaks where notes and hits begin. */
+const onsetEnvelope = (buffer: AudioBuffer) => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const frames = Math.floor(buffer.length / HOP_SIZE);
+  const onsets = new Float32Array(frames);
+  let previous = 0;
+  for (let f = 0; f < frames; f++) {
+    let energy = 0;
+    for (let i = f * HOP_SIZE; i < (f + 1) * HOP_SIZE; i++) {
+      let sample = 0;
+      for (const data of channels) sample += data[i];
+      energy += sample * sample;
+    }
+    energy = Math.sqrt(energy / HOP_SIZE);
+    onsets[f] = Math.max(energy - previous, 0);
+    previous = energy;
+  }
+  return onsets;
+};
+
+/**
+ * Estimates tempo by autocorrelating the onset envelope, then finds the beat phase
+ * that lines up with the most onsets. Works best on music with a steady pulse.
+ */
+export const detectBeats = (buffer: AudioBuffer): TempoAnalysis => {
+  const onsets = onsetEnvelope(buffer);
+  const framesPerSecond = buffer.sampleRate / HOP_SIZE;
+  const minLag = Math.floor(framesPerSecond * 60 / MAX_BPM);
+  const maxLag = Math.ceil(framesPerSecond * 60 / MIN_BPM);
+
+  let zeroLag = 0;
+  for (let i = 0; i < onsets.length; i++) zeroLag += onsets[i] * onsets[i];
+
+  let bestLag = minLag;
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag && lag < onsets.length; lag++) {
+    let score = 0;
+    for (let i = lag; i < onsets.length; i++) score += onsets[i] * onsets[i - lag];
+    score /= onsets.length - lag;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  let bpm = 60 * framesPerSecond / bestLag;
+  while (bpm < PREFERRED_BPM[0]) bpm *= 2;
+  while (bpm > PREFERRED_BPM[1]) bpm /= 2;
+  const period = 60 / bpm; // seconds
+  const periodFrames = period * framesPerSecond;
+
+  let bestPhase = 0;
+  let bestPhaseScore = -Infinity;
+  for (let phase = 0; phase < periodFrames; phase++) {
+    let score = 0;
+    for (let f = phase; f < onsets.length; f += periodFrames) score += onsets[Math.round(f)] ?? 0;
+    if (score > bestPhaseScore) {
+      bestPhaseScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  const beats: number[] = [];
+  for (let t = bestPhase / framesPerSecond; t < buffer.duration; t += period) beats.push(Math.round(t * 1000) / 1000);
+
+  return {
+    bpm: Math.round(bpm * 10) / 10,
+    beats,
+    duration: buffer.duration,
+    confidence: zeroLag > 0 ? Math.min(Math.max(bestScore * onsets.length / zeroLag, 0), 1) : 0
+  };
+};
+
+const analysisCache = new Map<string, Promise<TempoAnalysis>>();
+
+/**
+ * Decodes a track and runs beat detection on it, once per URL.
+ */
+export const analyzeTrackTempo = (url: string): Promise<TempoAnalysis> => {
+  let pending = analysisCache.get(url);
+  if (!pending) {
+    pending = loadAudioBuffer(new OfflineAudioContext(1, 1, 44100), url)
+      .then(detectBeats)
+      .catch(err => {
+        analysisCache.delete(url);
+        throw err;
+      });
+    analysisCache.set(url, pending);
+  }
+  return pending;
+};
+
+/** Drops the analysis for a URL that is about to be revoked. */
+export const evictTrackTempo = (url: string) => {
+  analysisCache.delete(url);
+};
+
+/**
+ * Maps the track's beats onto video time, following the music bed's trim, offset and looping.
+ */
+export const beatsOnTimeline = (analysis: TempoAnalysis, timeline: AudioTimeline, videoDuration: number) => {
+  const loopStart = Math.min(timeline.musicTrimStart, analysis.duration);
+  const loopEnd = Math.min(timeline.musicTrimEnd ?? analysis.duration, analysis.duration);
+  const loopLength = loopEnd - loopStart;
+  if (loopLength <= 0.01) return [];
+
+  const beatsInLoop = analysis.beats.filter(b => b >= loopStart && b < loopEnd).map(b => b - loopStart);
+  const times: number[] = [];
+  for (let pass = timeline.musicOffset; pass < videoDuration; pass += loopLength) {
+    beatsInLoop.forEach(b => { if (pass + b < videoDuration) times.push(pass + b); });
+  }
+  return times;
+};
+
+/** The beat closest to `t`, or `t` itself when there are none. */
+export const snapToBeat = (t: number, beats: number[]) =>
+  beats.reduce((best, b) => Math.abs(b - t) < Math.abs(best - t) ? b : best, beats[0] ?? t);
+
+/**
+ * Suggested `speed` for a tempo: 120 BPM plays at 1x, and the result stays within the 0.5-2x range.
+ */
+export const speedForTempo = (bpm: number) => Math.round(Math.min(Math.max(bpm / 120, 0.5), 2) * 20) / 20;
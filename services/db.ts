@@ -0,0 +1,66 @@
+
+const DB_NAME = 'gemini-animator';
+const DB_VERSION = 3;
+
+export const STORES = {
+  renders: 'renders',
+  operations: 'operations',
+  audio: 'audio',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use, creates or upgrades) the app's IndexedDB database.
+ * The connection is shared across all stores.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.renders)) {
+          db.createObjectStore(STORES.renders, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(STORES.operations)) {
+          db.createObjectStore(STORES.operations, { keyPath: 'jobId' });
+        }
+        if (!db.objectStoreNames.contains(STORES.audio)) {
+          db.createObjectStore(STORES.audio, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const getAll = async <T>(store: string): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).getAll() as IDBRequest<T[]>);
+};
+
+export const getOne = async <T>(store: string, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).get(key) as IDBRequest<T | undefined>);
+};
+
+export const put = async <T>(store: string, value: T): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value));
+};
+
+export const remove = async (store: string, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
@@ -0,0 +1,41 @@
+
+import { GenerationBackend, Resolution } from '../types';
+
+const STORAGE_KEY = 'gemini-animator:render-durations';
+const MAX_SAMPLES = 20;
+
+// Used until we have measured renders of our own
+const DEFAULT_DURATIONS_MS: Record<Resolution, number> = {
+  '720p': 90 * 1000,
+  '1080p': 180 * 1000,
+};
+
+// Samples are keyed by `${backend}:${resolution}` so mock renders never skew Veo estimates
+type DurationSamples = Record<string, number[]>;
+
+const readSamples = (): DurationSamples => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Records how long a successful render took so future estimates improve.
+ */
+export const recordRenderDuration = (backend: GenerationBackend, resolution: Resolution, durationMs: number) => {
+  const samples = readSamples();
+  const key = `${backend}:${resolution}`;
+  samples[key] = [...(samples[key] || []), durationMs].slice(-MAX_SAMPLES);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(samples));
+};
+
+/**
+ * Median of the recorded durations for a resolution, or a sensible default.
+ */
+export const estimateRenderDuration = (backend: GenerationBackend, resolution: Resolution): number => {
+  const samples = [...(readSamples()[`${backend}:${resolution}`] || [])].sort((a, b) => a - b);
+  if (samples.length === 0) return DEFAULT_DURATIONS_MS[resolution];
+  return samples[Math.floor(samples.length / 2)];
+};
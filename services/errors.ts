@@ -0,0 +1,107 @@
+
+import { GenerationErrorCode } from '../types';
+
+/**
+ * Error raised by the generation layer with a machine-readable `code`,
+ * so the UI can react to each failure class without parsing messages.
+ */
+export class GenerationError extends Error {
+  code: GenerationErrorCode;
+
+  constructor(code: GenerationErrorCode, message: string) {
+    super(message);
+    this.name = 'GenerationError';
+    this.code = code;
+  }
+}
+
+interface ErrorGuidance {
+  title: string;
+  guidance: string;
+  transient: boolean; // polling and downloads retry these automatically with backoff
+}
+
+export const ERROR_GUIDANCE: Record<GenerationErrorCode, ErrorGuidance> = {
+  'auth': {
+    title: 'API Key Problem',
+    guidance: 'Your API key was rejected or its project cannot access Veo. Select a key from a paid Google Cloud project and try again.',
+    transient: false,
+  },
+  'quota': {
+    title: 'Rate Limit Reached',
+    guidance: 'The project is out of quota or sending requests too quickly. Wait a minute, lower the parallel job count, or check your quota in Google Cloud.',
+    transient: true,
+  },
+  'safety': {
+    title: 'Blocked by Safety Filters',
+    guidance: 'The prompt or frames were flagged by content safety filters. Rephrase the prompt or use different frames.',
+    transient: false,
+  },
+  'invalid-input': {
+    title: 'Invalid Input',
+    guidance: 'The request was rejected as malformed. Check that the frames are valid images and that the prompt is not empty or excessively long.',
+    transient: false,
+  },
+  'network': {
+    title: 'Connection Problem',
+    guidance: 'The service could not be reached. Check your connection. Status checks and downloads are retried automatically; if the job was never submitted, retry it.',
+    transient: true,
+  },
+  'empty-result': {
+    title: 'No Video Returned',
+    guidance: 'The render finished without producing a video. This is usually temporary. Retry the job, or adjust the prompt if it keeps happening.',
+    transient: false,
+  },
+  'cancelled': {
+    title: 'Render Cancelled',
+    guidance: 'The render was cancelled. Any time already spent server-side may still be billed.',
+    transient: false,
+  },
+  'timeout': {
+    title: 'Render Timed Out',
+    guidance: 'The render did not finish within the configured timeout. Raise the timeout in Output Configuration or retry later.',
+    transient: false,
+  },
+  'unknown': {
+    title: 'Rendering Failed',
+    guidance: 'An unexpected error occurred. Retry the job; if it keeps failing, check the browser console for details.',
+    transient: false,
+  },
+};
+
+const MESSAGE_PATTERNS: [RegExp, GenerationErrorCode][] = [
+  [/requested entity was not found|api key|unauthenticated|permission denied|permission_denied/i, 'auth'],
+  [/quota|rate limit|resource_exhausted|too many requests/i, 'quota'],
+  [/safety|blocked|responsible ai|\brai\b|prohibited/i, 'safety'],
+  [/invalid|unsupported|not supported|bad request|invalid_argument/i, 'invalid-input'],
+  [/failed to fetch|network|econn|enotfound|socket|unavailable|deadline exceeded/i, 'network'],
+];
+
+const codeFromStatus = (status: number): GenerationErrorCode | undefined => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 400) return 'invalid-input';
+  if (status >= 500) return 'network';
+  return undefined;
+};
+
+/**
+ * Normalizes anything thrown by a provider, the SDK or `fetch` into a `GenerationError`.
+ */
+export const classifyError = (err: unknown): GenerationError => {
+  if (err instanceof GenerationError) return err;
+
+  const message = (err as any)?.message || String(err ?? '') || "An unexpected error occurred.";
+  if ((err as any)?.name === 'AbortError') return new GenerationError('cancelled', "The render was cancelled.");
+
+  // Message patterns win over status codes: a 400 mentioning safety is a safety rejection,
+  // and a 404 "Requested entity was not found." means the key's project lacks access.
+  const fromMessage = MESSAGE_PATTERNS.find(([pattern]) => pattern.test(message))?.[1];
+  const status = typeof (err as any)?.status === 'number' ? (err as any).status : undefined;
+  const code = fromMessage ?? (status !== undefined ? codeFromStatus(status) : undefined) ?? 'unknown';
+  return new GenerationError(code, message);
+};
+
+export const getErrorCode = (err: unknown): GenerationErrorCode => classifyError(err).code;
+
+export const isTransient = (err: unknown) => ERROR_GUIDANCE[classifyError(err).code].transient;
@@ -0,0 +1,221 @@
+
+import { GenerateVideosOperation, GoogleGenAI, Type } from "@google/genai";
+import { BG_MUSIC_LIBRARY, SFX_LIBRARY } from '../constants';
+import { AudioCatalog, AudioOption, GenerationErrorCode, GenerationParams, GenerationProvider, GenerationResult, GenerationRunOptions, SceneSuggestion } from '../types';
+import { classifyError, GenerationError } from './errors';
+import { createDeadline, DEFAULT_TIMEOUT_MS, estimateProgress, pollDelay, sleep, throwIfAborted, withRetry } from './polling';
+
+export const VIDEO_MODEL = 'veo-3.1-fast-generate-preview';
+export const ANALYSIS_MODEL = 'gemini-3-flash-preview';
+
+/**
+ * Splits a data URL (or bare base64 string) into the payload shape the SDK expects.
+ */
+export const toImagePayload = (image: string) => {
+  const match = image.match(/^data:([^;]+);base64,(.*)$/);
+  return match
+    ? { imageBytes: match[2], mimeType: match[1] }
+    : { imageBytes: image, mimeType: 'image/png' };
+};
+
+const toInlineData = (image: string) => {
+  const { imageBytes, mimeType } = toImagePayload(image);
+  return { inlineData: { data: imageBytes, mimeType } };
+};
+
+const createClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+/**
+ * Polls a Veo operation with backoff until it is done, then downloads the generated clip.
+ * Stops early when `options.signal` aborts or the overall timeout elapses.
+ */
+const pollOperation = async (
+  ai: GoogleGenAI,
+  operation: GenerateVideosOperation,
+  options: GenerationRunOptions,
+  startedAt: number
+): Promise<GenerationResult> => {
+  const { onProgress, signal, estimatedDurationMs } = options;
+  const deadline = createDeadline(startedAt, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+  let attempt = 0;
+  const onRetry = (retry: { count: number; max: number; errorCode: GenerationErrorCode }) => onProgress?.({
+    stage: 'retrying',
+    progress: estimateProgress(deadline.elapsed(), estimatedDurationMs),
+    attempt,
+    elapsedMs: deadline.elapsed(),
+    operationName: operation.name,
+    retry
+  });
+
+  while (!operation.done) {
+    deadline.check();
+    attempt++;
+    await sleep(Math.min(pollDelay(attempt), deadline.remaining() + 1), signal);
+    deadline.check();
+    const current = operation;
+    operation = await withRetry(
+      () => ai.operations.getVideosOperation({ operation: current, config: { abortSignal: signal } }),
+      { signal, onRetry }
+    );
+    onProgress?.({
+      stage: 'polling',
+      progress: estimateProgress(deadline.elapsed(), estimatedDurationMs),
+      attempt,
+      elapsedMs: deadline.elapsed(),
+      operationName: operation.name
+    });
+  }
+
+  if (operation.error) {
+    throw classifyError(new Error(String(operation.error.message || 'The operation failed.')));
+  }
+
+  const response = operation.response;
+  if (response?.raiMediaFilteredCount) {
+    const reasons = response.raiMediaFilteredReasons?.join(' ') || 'The output was filtered by safety policies.';
+    throw new GenerationError('safety', reasons);
+  }
+
+  const uri = response?.generatedVideos?.[0]?.video?.uri;
+  if (!uri) {
+    throw new GenerationError('empty-result', "The generation finished without returning a video.");
+  }
+
+  onProgress?.({ stage: 'downloading', progress: 97, attempt, elapsedMs: deadline.elapsed(), operationName: operation.name });
+  const blob = await withRetry(async () => {
+    const videoResponse = await fetch(`${uri}&key=${process.env.API_KEY}`, { signal });
+    if (!videoResponse.ok) {
+      throw Object.assign(new Error(`Downloading the video failed (HTTP ${videoResponse.status}).`), { status: videoResponse.status });
+    }
+    return videoResponse.blob();
+  }, { signal, onRetry });
+
+  onProgress?.({ stage: 'complete', progress: 100, attempt, elapsedMs: deadline.elapsed(), operationName: operation.name });
+  return { blob, mimeType: blob.type || 'video/mp4', uri, operationName: operation.name };
+};
+
+/**
+ * Submits a Veo job for the given parameters and polls it until the video is ready.
+ * Progress is reported through `options.onProgress`; the resolved value holds the downloaded clip.
+ */
+const generateVideo = async (params: GenerationParams, options: GenerationRunOptions = {}): Promise<GenerationResult> => {
+  const ai = createClient();
+  const startedAt = options.startedAt ?? Date.now();
+  const config: any = {
+    numberOfVideos: 1,
+    resolution: params.resolution,
+    aspectRatio: params.aspectRatio,
+    abortSignal: options.signal
+  };
+
+  if (params.endImage) {
+    config.lastFrame = toImagePayload(params.endImage);
+  }
+  if (params.negativePrompt) config.negativePrompt = params.negativePrompt;
+  // The Gemini API rejects seeds outright; only Vertex AI takes one
+  if (params.seed !== undefined && ai.vertexai) config.seed = params.seed;
+
+  throwIfAborted(options.signal);
+  options.onProgress?.({ stage: 'submitting', progress: 0, attempt: 0, elapsedMs: 0 });
+
+  // Not retried: each submission is a billed job, and a request that failed on our side may
+  // still have started one. Polling and the download are safe to repeat, so only those retry.
+  const operation = await ai.models.generateVideos({
+    model: VIDEO_MODEL,
+    prompt: params.prompt,
+    image: params.startImage ? toImagePayload(params.startImage) : undefined,
+    config
+  });
+
+  options.onProgress?.({ stage: 'submitted', progress: 0, attempt: 0, elapsedMs: Date.now() - startedAt, operationName: operation.name });
+  return pollOperation(ai, operation, options, startedAt);
+};
+
+/**
+ * Re-attaches to a Veo operation submitted earlier (e.g. before a page reload).
+ */
+const resumeVideo = async (
+  operationName: string,
+  _params: GenerationParams,
+  options: GenerationRunOptions = {}
+): Promise<GenerationResult> => {
+  const ai = createClient();
+  const operation = new GenerateVideosOperation();
+  operation.name = operationName;
+  return pollOperation(ai, operation, options, options.startedAt ?? Date.now());
+};
+
+/**
+ * Asks Gemini to analyze one or two keyframes and propose cinematic parameters for them.
+ */
+const describeAudioChoices = (options: AudioOption[]) =>
+  options.filter(o => o.id !== 'none').map(o => `${o.id} ("${o.name}")`).join(', ');
+
+const analyzeFrames = async (
+  startImage: string,
+  endImage?: string | null,
+  audioCatalog: AudioCatalog = { music: BG_MUSIC_LIBRARY, sfx: SFX_LIBRARY }
+): Promise<SceneSuggestion> => {
+  const ai = createClient();
+  const parts: any[] = [toInlineData(startImage)];
+
+  if (endImage) {
+    parts.push(toInlineData(endImage));
+  }
+
+  parts.push({
+    text: `You are an elite Cinematographer. Analyze the provided ${endImage ? 'two frames (start and end)' : 'frame'} and suggest optimal cinematic parameters for a video generation model.
+    If two frames are provided, suggest how the first should morph or transition into the second.
+
+    Return a JSON object:
+    {
+      "cameraAngle": "wide" | "closeup" | "birdseye" | "lowangle" | "pov",
+      "motionType": "pan" | "tilt" | "zoomin" | "zoomout" | "orbit" | "dolly",
+      "atmosphere": string[], // from: volumetric, neon, fog, rain, golden, monochrome
+      "prompt": string, // detailed creative prompt
+      "directorVision": string, // a 1-2 sentence explanation of the creative choice
+      "suggestedAudio": string, // one of: ${describeAudioChoices(audioCatalog.music)}
+      "suggestedSfx": string, // one of: ${describeAudioChoices(audioCatalog.sfx)}
+      "speed": number // between 0.5 and 2.0
+    }`
+  });
+
+  const response = await withRetry(() => ai.models.generateContent({
+    model: ANALYSIS_MODEL,
+    contents: [{ parts }],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          cameraAngle: { type: Type.STRING },
+          motionType: { type: Type.STRING },
+          atmosphere: { type: Type.ARRAY, items: { type: Type.STRING } },
+          prompt: { type: Type.STRING },
+          directorVision: { type: Type.STRING },
+          suggestedAudio: { type: Type.STRING },
+          suggestedSfx: { type: Type.STRING },
+          speed: { type: Type.NUMBER }
+        },
+        required: ["cameraAngle", "motionType", "atmosphere", "prompt", "directorVision"]
+      }
+    }
+  }));
+
+  if (!response.text) {
+    throw new GenerationError('empty-result', "The analysis finished without returning any suggestions.");
+  }
+  return JSON.parse(response.text) as SceneSuggestion;
+};
+
+export const geminiProvider: GenerationProvider = {
+  id: 'gemini',
+  label: 'Gemini Veo',
+  requiresApiKey: true,
+  // The client is created with an API key, so it talks to the Gemini API rather than Vertex AI
+  supportsSeed: false,
+  generateVideo,
+  resumeVideo,
+  analyzeFrames
+};
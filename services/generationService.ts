@@ -0,0 +1,30 @@
+
+import { AudioCatalog, GenerationBackend, GenerationParams, GenerationProvider, GenerationResult, GenerationRunOptions, SceneSuggestion } from '../types';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+
+const PROVIDERS: Record<GenerationBackend, GenerationProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+/**
+ * Resolves the backend chosen through `GENERATION_BACKEND` (see vite.config.ts).
+ * Unknown values fall back to the live Gemini provider.
+ */
+export const getProvider = (): GenerationProvider => {
+  const backend = process.env.GENERATION_BACKEND as GenerationBackend | undefined;
+  return (backend && PROVIDERS[backend]) || geminiProvider;
+};
+
+export const generateVideo = (params: GenerationParams, options?: GenerationRunOptions): Promise<GenerationResult> =>
+  getProvider().generateVideo(params, options);
+
+export const resumeVideo = (
+  operationName: string,
+  params: GenerationParams,
+  options?: GenerationRunOptions
+): Promise<GenerationResult> => getProvider().resumeVideo(operationName, params, options);
+
+export const analyzeFrames = (startImage: string, endImage?: string | null, audioCatalog?: AudioCatalog): Promise<SceneSuggestion> =>
+  getProvider().analyzeFrames(startImage, endImage, audioCatalog);
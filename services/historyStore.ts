@@ -0,0 +1,15 @@
+
+import { RenderHistoryEntry } from '../types';
+import { getAll, put, remove, STORES } from './db';
+
+/**
+ * Returns all saved renders, newest first.
+ */
+export const listRenders = async (): Promise<RenderHistoryEntry[]> => {
+  const entries = await getAll<RenderHistoryEntry>(STORES.renders);
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveRender = (entry: RenderHistoryEntry) => put(STORES.renders, entry);
+
+export const deleteRender = (id: string) => remove(STORES.renders, id);
@@ -0,0 +1,141 @@
+
+import { ClipSynthesizer, GenerationParams, GenerationProvider, GenerationResult, GenerationRunOptions, SceneSuggestion } from '../types';
+import { drawCover, getFrameSize, loadImage, pickRecorderMimeType } from '../utils/media';
+import { createDeadline, DEFAULT_TIMEOUT_MS, estimateProgress, sleep, throwIfAborted } from './polling';
+
+const MOCK_POLL_INTERVAL_MS = 800;
+const MOCK_POLL_COUNT = 4;
+
+// Shared with other clip synthesizers (see cli/ffmpegClip.ts) so every mock clip looks the same
+export const MOCK_CLIP_DURATION_MS = 4000;
+export const MOCK_CLIP_FPS = 30;
+export const MOCK_PUSH_IN_ZOOM = 0.15;
+
+/**
+ * Records a crossfade from the start frame to the end frame on an offscreen canvas.
+ * With a single frame it falls back to a slow push-in so the clip still has motion.
+ */
+const synthesizeCanvasClip: ClipSynthesizer = async (params) => {
+  const [width, height] = getFrameSize(params.aspectRatio, params.resolution);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context is unavailable.");
+
+  const start = params.startImage ? await loadImage(params.startImage) : null;
+  const end = params.endImage ? await loadImage(params.endImage) : null;
+
+  const drawFrame = (t: number) => {
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = '#020617';
+    ctx.fillRect(0, 0, width, height);
+    if (start) drawCover(ctx, start, end ? 1 : 1 + t * MOCK_PUSH_IN_ZOOM);
+    if (end) {
+      ctx.globalAlpha = t;
+      drawCover(ctx, end);
+    }
+  };
+
+  const mimeType = pickRecorderMimeType();
+  const recorder = new MediaRecorder(canvas.captureStream(MOCK_CLIP_FPS), mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  drawFrame(0);
+  recorder.start();
+  const startedAt = performance.now();
+  await new Promise<void>(resolve => {
+    const timer = setInterval(() => {
+      const t = Math.min((performance.now() - startedAt) / MOCK_CLIP_DURATION_MS, 1);
+      drawFrame(t);
+      if (t >= 1) {
+        clearInterval(timer);
+        resolve();
+      }
+    }, 1000 / MOCK_CLIP_FPS);
+  });
+  recorder.stop();
+  await stopped;
+
+  return new Blob(chunks, { type: recorder.mimeType || 'video/webm' });
+};
+
+const analyzeFrames = async (_startImage: string, endImage?: string | null): Promise<SceneSuggestion> => {
+  await sleep(MOCK_POLL_INTERVAL_MS);
+  return endImage
+    ? {
+        cameraAngle: 'wide',
+        motionType: 'dolly',
+        atmosphere: ['volumetric', 'golden'],
+        prompt: 'A smooth dolly push that dissolves the first scene into the second, with warm volumetric light carrying across the transition.',
+        directorVision: 'A forward push keeps momentum while the shared golden light ties both frames together.',
+        suggestedAudio: 'space',
+        suggestedSfx: 'whoosh',
+        speed: 0.8
+      }
+    : {
+        cameraAngle: 'closeup',
+        motionType: 'zoomin',
+        atmosphere: ['fog'],
+        prompt: 'A slow, deliberate push-in on the subject as soft fog drifts through the frame.',
+        directorVision: 'A gentle zoom draws the eye inward and lets the texture of the frame carry the mood.',
+        suggestedAudio: 'nature',
+        suggestedSfx: 'chime',
+        speed: 0.6
+      };
+};
+
+/**
+ * Builds a provider that simulates Veo's submit/poll cycle and draws clips with `synthesizeClip`.
+ * The browser draws on a canvas; the CLI supplies a synthesizer that works outside the DOM.
+ */
+export const createMockProvider = (synthesizeClip: ClipSynthesizer): GenerationProvider => {
+  const pollMockOperation = async (
+    operationName: string,
+    params: GenerationParams,
+    options: GenerationRunOptions = {}
+  ): Promise<GenerationResult> => {
+    const { onProgress, signal } = options;
+    const deadline = createDeadline(options.startedAt ?? Date.now(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    // Mock jobs always take MOCK_POLL_COUNT polls, so progress is measured against that instead of history
+    const expectedMs = (MOCK_POLL_COUNT + 1) * MOCK_POLL_INTERVAL_MS;
+
+    for (let attempt = 1; attempt <= MOCK_POLL_COUNT; attempt++) {
+      await sleep(MOCK_POLL_INTERVAL_MS, signal);
+      deadline.check();
+      onProgress?.({ stage: 'polling', progress: estimateProgress(deadline.elapsed(), expectedMs), attempt, elapsedMs: deadline.elapsed(), operationName });
+    }
+
+    onProgress?.({ stage: 'downloading', progress: 97, attempt: MOCK_POLL_COUNT, elapsedMs: deadline.elapsed(), operationName });
+    const blob = await synthesizeClip(params, signal);
+    throwIfAborted(signal);
+
+    onProgress?.({ stage: 'complete', progress: 100, attempt: MOCK_POLL_COUNT, elapsedMs: deadline.elapsed(), operationName });
+    return { blob, mimeType: blob.type, uri: `mock://${operationName}`, operationName };
+  };
+
+  const generateVideo = async (params: GenerationParams, options: GenerationRunOptions = {}): Promise<GenerationResult> => {
+    const startedAt = options.startedAt ?? Date.now();
+    const operationName = `mock/operations/${Date.now().toString(36)}`;
+    options.onProgress?.({ stage: 'submitting', progress: 0, attempt: 0, elapsedMs: 0 });
+    await sleep(MOCK_POLL_INTERVAL_MS, options.signal);
+    options.onProgress?.({ stage: 'submitted', progress: 0, attempt: 0, elapsedMs: Date.now() - startedAt, operationName });
+    return pollMockOperation(operationName, params, { ...options, startedAt });
+  };
+
+  return {
+    id: 'mock',
+    label: 'Offline Mock',
+    requiresApiKey: false,
+    // Clips are drawn from the frames alone, so there is nothing for a seed to vary
+    supportsSeed: false,
+    generateVideo,
+    // Mock operations hold no server state, so resuming simply replays the render locally
+    resumeVideo: pollMockOperation,
+    analyzeFrames
+  };
+};
+
+export const mockProvider = createMockProvider(synthesizeCanvasClip);
@@ -0,0 +1,15 @@
+
+import { PendingOperation } from '../types';
+import { getAll, put, remove, STORES } from './db';
+
+/**
+ * Returns operations that were still running when the page was last closed, oldest first.
+ */
+export const listPendingOperations = async (): Promise<PendingOperation[]> => {
+  const operations = await getAll<PendingOperation>(STORES.operations);
+  return operations.sort((a, b) => a.submittedAt - b.submittedAt);
+};
+
+export const savePendingOperation = (operation: PendingOperation) => put(STORES.operations, operation);
+
+export const deletePendingOperation = (jobId: string) => remove(STORES.operations, jobId);
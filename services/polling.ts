@@ -0,0 +1,88 @@
+
+import { GenerationErrorCode } from '../types';
+import { classifyError, ERROR_GUIDANCE, GenerationError } from './errors';
+
+const INITIAL_POLL_DELAY_MS = 5000;
+const MAX_POLL_DELAY_MS = 30000;
+const POLL_BACKOFF_FACTOR = 1.5;
+
+const INITIAL_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 20000;
+
+export const DEFAULT_TIMEOUT_MS = 15 * 60 * 1000;
+export const MAX_TRANSIENT_RETRIES = 3;
+
+/**
+ * Delay before the given (1-based) poll attempt: grows geometrically and is capped.
+ */
+export const pollDelay = (attempt: number) =>
+  Math.min(INITIAL_POLL_DELAY_MS * Math.pow(POLL_BACKOFF_FACTOR, attempt - 1), MAX_POLL_DELAY_MS);
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new GenerationError('cancelled', "The render was cancelled.");
+};
+
+/**
+ * Resolves after `ms`, or rejects with a `cancelled` error as soon as `signal` aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new GenerationError('cancelled', "The render was cancelled."));
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new GenerationError('cancelled', "The render was cancelled."));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Tracks the overall deadline of a render and how long it has been running.
+ */
+export const createDeadline = (startedAt: number, timeoutMs: number) => ({
+  elapsed: () => Date.now() - startedAt,
+  remaining: () => Math.max(startedAt + timeoutMs - Date.now(), 0),
+  check: () => {
+    if (Date.now() - startedAt > timeoutMs) {
+      throw new GenerationError('timeout', `The render did not finish within ${Math.round(timeoutMs / 60000)} minutes.`);
+    }
+  }
+});
+
+/**
+ * Maps elapsed time onto a 0-95% progress value using the expected duration.
+ * The last 5% is reserved for downloading the result.
+ */
+export const estimateProgress = (elapsedMs: number, estimatedMs?: number) =>
+  estimatedMs ? Math.min(Math.round((elapsedMs / estimatedMs) * 95), 95) : 0;
+
+interface RetryOptions {
+  signal?: AbortSignal;
+  retries?: number;
+  onRetry?: (retry: { count: number; max: number; errorCode: GenerationErrorCode }) => void;
+}
+
+/**
+ * Runs `fn`, retrying with exponential backoff while it fails with a transient error class
+ * (see `ERROR_GUIDANCE`). Anything else, or the last failure, is rethrown as a `GenerationError`.
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const max = options.retries ?? MAX_TRANSIENT_RETRIES;
+  for (let count = 0; ; count++) {
+    throwIfAborted(options.signal);
+    try {
+      return await fn();
+    } catch (err) {
+      const error = classifyError(err);
+      if (options.signal?.aborted) throw new GenerationError('cancelled', "The render was cancelled.");
+      if (!ERROR_GUIDANCE[error.code].transient || count >= max) throw error;
+      options.onRetry?.({ count: count + 1, max, errorCode: error.code });
+      await sleep(Math.min(INITIAL_RETRY_DELAY_MS * Math.pow(2, count), MAX_RETRY_DELAY_MS), options.signal);
+    }
+  }
+};
@@ -0,0 +1,81 @@
+
+import { CustomPreset, PresetPack } from '../types';
+import { Validator } from '../utils/validation';
+
+const STORAGE_KEY = 'gemini-animator:custom-presets';
+export const PRESET_PACK_FORMAT = 'gemini-animator-presets';
+export const PRESET_PACK_VERSION = 1;
+
+export class PresetPackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetPackError';
+  }
+}
+
+const validatePresets = (v: Validator, presets: any, path: string) => {
+  if (!v.check(Array.isArray(presets), path, 'a list')) return;
+  presets.forEach((preset: any, i: number) => {
+    const at = `${path}[${i}]`;
+    v.string(preset?.id, `${at}.id`);
+    v.string(preset?.name, `${at}.name`);
+    v.string(preset?.icon, `${at}.icon`);
+    v.string(preset?.category, `${at}.category`);
+    if (!v.check(typeof preset?.settings === 'object' && preset.settings !== null, `${at}.settings`, 'an object')) return;
+    const s = preset.settings;
+    v.string(s.prompt, `${at}.settings.prompt`);
+    v.boolean(s.isAdvancedMode, `${at}.settings.isAdvancedMode`);
+    v.string(s.camAngle, `${at}.settings.camAngle`);
+    v.string(s.motionType, `${at}.settings.motionType`);
+    v.stringArray(s.atmosphere, `${at}.settings.atmosphere`);
+    v.number(s.speed, `${at}.settings.speed`, 0.1, 4);
+    v.boolean(s.motionBlur, `${at}.settings.motionBlur`);
+    v.boolean(s.stabilization, `${at}.settings.stabilization`);
+  });
+};
+
+export const loadCustomPresets = (): CustomPreset[] => {
+  try {
+    const presets = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    const v = new Validator();
+    validatePresets(v, presets, 'presets');
+    if (v.errors.length > 0) throw new Error(v.summary());
+    return presets;
+  } catch (err) {
+    console.warn("Ignoring unreadable custom presets", err);
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: CustomPreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+export const createPresetPack = (name: string, presets: CustomPreset[]): PresetPack => ({
+  format: PRESET_PACK_FORMAT,
+  version: PRESET_PACK_VERSION,
+  name,
+  presets
+});
+
+/**
+ * Reads and validates a preset pack file.
+ */
+export const parsePresetPack = async (file: Blob): Promise<PresetPack> => {
+  let raw: any;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch (err) {
+    throw new PresetPackError(`Could not read the preset pack (${(err as Error).message}).`);
+  }
+  if (raw?.format !== PRESET_PACK_FORMAT) throw new PresetPackError("This file is not a Gemini Animator preset pack.");
+  if (typeof raw.version !== 'number' || raw.version > PRESET_PACK_VERSION) {
+    throw new PresetPackError(`This preset pack was made by a newer version of Gemini Animator (format v${raw.version}).`);
+  }
+
+  const v = new Validator();
+  v.string(raw.name, 'name');
+  validatePresets(v, raw.presets, 'presets');
+  if (v.errors.length > 0) throw new PresetPackError(`Invalid preset pack: ${v.summary()}`);
+  return raw;
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCENE_SETTINGS } from '../constants';
+import { createProjectFile, parseProject, PROJECT_FORMAT, PROJECT_VERSION, ProjectFileError } from './projectFile';
+
+const project = (overrides: Record<string, unknown> = {}) => ({
+  ...createProjectFile('Test', { scene: DEFAULT_SCENE_SETTINGS, storyboard: [], isStoryboardMode: false }),
+  ...overrides
+});
+
+describe('parseProject', () => {
+  it('accepts a current project unchanged', () => {
+    const parsed = parseProject(JSON.parse(JSON.stringify(project())));
+    expect(parsed.version).toBe(PROJECT_VERSION);
+    expect(parsed.name).toBe('Test');
+    expect(parsed.scene.prompt).toBe(DEFAULT_SCENE_SETTINGS.prompt);
+  });
+
+  it('migrates a v0 bare scene into a v1 project', () => {
+    const { negativePrompt: _n, seed: _s, seedLocked: _l, phrasebook: _p, ...legacy } = DEFAULT_SCENE_SETTINGS;
+    const parsed = parseProject(JSON.parse(JSON.stringify(legacy)));
+    expect(parsed.format).toBe(PROJECT_FORMAT);
+    expect(parsed.version).toBe(1);
+    expect(parsed.name).toBe('Imported Scene');
+    expect(parsed.storyboard).toEqual([]);
+    expect(parsed.isStoryboardMode).toBe(false);
+    expect(parsed.scene.prompt).toBe(DEFAULT_SCENE_SETTINGS.prompt);
+    // Settings that postdate the file take their defaults
+    expect(parsed.scene.negativePrompt).toBe('');
+    expect(parsed.scene.seed).toBeNull();
+    expect(parsed.scene.seedLocked).toBe(false);
+    expect(parsed.scene.phrasebook).toBe(DEFAULT_SCENE_SETTINGS.phrasebook);
+  });
+
+  it.each([0.5, -1, NaN, '1', null])('rejects version %s as a ProjectFileError', (version) => {
+    expect(() => parseProject(project({ version }))).toThrow(ProjectFileError);
+  });
+
+  it('rejects projects from a newer version', () => {
+    expect(() => parseProject(project({ version: PROJECT_VERSION + 1 }))).toThrow(/newer version/);
+  });
+
+  it('lists shape problems with their paths', () => {
+    const bad = project({ name: 3, storyboard: 'none', scene: { ...DEFAULT_SCENE_SETTINGS, speed: 9, aspectRatio: '4:3' } });
+    expect(() => parseProject(bad)).toThrow(ProjectFileError);
+    expect(() => parseProject(bad)).toThrow(/name should be a string; scene\.speed should be a number between 0\.1 and 4; scene\.aspectRatio should be one of 16:9, 9:16 \(and 1 more\)/);
+  });
+
+  it('rejects a project without a scene object', () => {
+    expect(() => parseProject(project({ scene: null }))).toThrow(/scene should be an object/);
+  });
+
+  it('rejects frame edits with out-of-range params', () => {
+    const scene = {
+      ...DEFAULT_SCENE_SETTINGS,
+      startImage: 'data:image/png;base64,AAAA',
+      startImageEdit: { original: 'data:image/png;base64,AAAA', params: { brightness: 500 }, history: [] }
+    };
+    expect(() => parseProject(project({ scene }))).toThrow(/scene\.startImageEdit\.params\.brightness/);
+  });
+
+  it('rejects input that is not an object', () => {
+    expect(() => parseProject('project')).toThrow(ProjectFileError);
+    expect(() => parseProject(null)).toThrow(ProjectFileError);
+  });
+});
@@ -0,0 +1,344 @@
+
+import { DEFAULT_AUDIO_TIMELINE, DEFAULT_EDITOR_PARAMS, DEFAULT_SCENE_SETTINGS, MAX_CROP_ZOOM, MAX_SEED, RESAMPLING_QUALITIES } from '../constants';
+import { AudioTimeline, CubeLut, EditorParams, FrameEdit, ProjectFile, ProjectSnapshot, SceneSettings, StoryboardKeyframe } from '../types';
+import { bytesToDataUrl, dataUrlToBytes, imageExtensionFor, mimeTypeForImagePath } from '../utils/media';
+import { Validator } from '../utils/validation';
+import { createZip, isZip, readZip } from '../utils/zip';
+
+export const PROJECT_FORMAT = 'gemini-animator-project';
+export const PROJECT_VERSION = 1;
+
+const AUTOSAVE_KEY = 'gemini-animator:autosave';
+const BUNDLE_MANIFEST = 'project.json';
+// Frames inside a ZIP bundle are stored as files and referenced with this prefix
+const BUNDLE_REF_PREFIX = 'bundle:';
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+/**
+ * Upgrades each older shape by one version. Version 0 is a bare SceneSettings object,
+ * e.g. settings copied out of a render history entry.
+ */
+const MIGRATIONS: Record<number, (project: any) => any> = {
+  0: (scene) => ({
+    format: PROJECT_FORMAT,
+    version: 1,
+    name: 'Imported Scene',
+    savedAt: Date.now(),
+    scene,
+    storyboard: [],
+    isStoryboardMode: false
+  }),
+};
+
+const migrate = (raw: any) => {
+  let project = raw;
+  let version = project?.format === PROJECT_FORMAT ? project.version : 0;
+  if (!Number.isInteger(version) || version < 0) {
+    throw new ProjectFileError(`Invalid project file: version should be a whole number, got ${JSON.stringify(version)}.`);
+  }
+  if (version > PROJECT_VERSION) {
+    throw new ProjectFileError(`This project was saved by a newer version of Gemini Animator (format v${version}).`);
+  }
+  while (version < PROJECT_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new ProjectFileError(`Project format v${version} can't be upgraded.`);
+    project = step(project);
+    version = project.version;
+  }
+  return project;
+};
+
+const validateTimeline = (v: Validator, timeline: any, path: string): AudioTimeline => {
+  if (timeline === undefined) return DEFAULT_AUDIO_TIMELINE;
+  if (!v.check(typeof timeline === 'object' && timeline !== null, path, 'an object')) return DEFAULT_AUDIO_TIMELINE;
+  if (v.check(Array.isArray(timeline.cues), `${path}.cues`, 'a list')) {
+    timeline.cues.forEach((cue: any, i: number) => {
+      v.string(cue?.id, `${path}.cues[${i}].id`);
+      v.string(cue?.sfxId, `${path}.cues[${i}].sfxId`);
+      v.number(cue?.at, `${path}.cues[${i}].at`, 0);
+      v.number(cue?.volume, `${path}.cues[${i}].volume`, 0, 1);
+    });
+  }
+  v.number(timeline.musicTrimStart, `${path}.musicTrimStart`, 0);
+  v.check(timeline.musicTrimEnd === null || (typeof timeline.musicTrimEnd === 'number' && timeline.musicTrimEnd >= 0), `${path}.musicTrimEnd`, 'null or a positive number');
+  v.number(timeline.musicOffset, `${path}.musicOffset`, 0);
+  v.number(timeline.fadeIn, `${path}.fadeIn`, 0);
+  v.number(timeline.fadeOut, `${path}.fadeOut`, 0);
+  v.number(timeline.duckLevel, `${path}.duckLevel`, 0, 1);
+  return timeline;
+};
+
+/** Adjustments added after a frame was edited take their defaults. */
+const validateEditorParams = (v: Validator, params: any, path: string): EditorParams => {
+  if (!v.check(typeof params === 'object' && params !== null, path, 'an object')) return DEFAULT_EDITOR_PARAMS;
+  const merged = { ...DEFAULT_EDITOR_PARAMS, ...params };
+  v.number(merged.brightness, `${path}.brightness`, 0, 200);
+  v.number(merged.contrast, `${path}.contrast`, 0, 200);
+  v.number(merged.saturation, `${path}.saturation`, 0, 200);
+  v.number(merged.hue, `${path}.hue`, 0, 360);
+  v.number(merged.vignette, `${path}.vignette`, -100, 100);
+  v.boolean(merged.grayscale, `${path}.grayscale`);
+  v.boolean(merged.sepia, `${path}.sepia`);
+  v.number(merged.rotation, `${path}.rotation`);
+  v.number(merged.rotateX, `${path}.rotateX`, -60, 60);
+  v.number(merged.rotateY, `${path}.rotateY`, -60, 60);
+  v.number(merged.perspective, `${path}.perspective`, 500, 2500);
+  v.number(merged.cameraShake, `${path}.cameraShake`, 0, 100);
+  v.oneOf(merged.resampling, `${path}.resampling`, RESAMPLING_QUALITIES.map(q => q.id));
+  if (v.check(typeof merged.crop === 'object' && merged.crop !== null, `${path}.crop`, 'an object')) {
+    v.number(merged.crop.x, `${path}.crop.x`, 0, 1);
+    v.number(merged.crop.y, `${path}.crop.y`, 0, 1);
+    v.number(merged.crop.zoom, `${path}.crop.zoom`, 1, MAX_CROP_ZOOM);
+  }
+  v.number(merged.temperature, `${path}.temperature`, -100, 100);
+  v.number(merged.tint, `${path}.tint`, -100, 100);
+  if (v.check(typeof merged.levels === 'object' && merged.levels !== null, `${path}.levels`, 'an object')) {
+    v.number(merged.levels.inputBlack, `${path}.levels.inputBlack`, 0, 254);
+    v.number(merged.levels.inputWhite, `${path}.levels.inputWhite`, 1, 255);
+    v.number(merged.levels.gamma, `${path}.levels.gamma`, 0.1, 3);
+    v.number(merged.levels.outputBlack, `${path}.levels.outputBlack`, 0, 255);
+    v.number(merged.levels.outputWhite, `${path}.levels.outputWhite`, 0, 255);
+  }
+  if (v.check(typeof merged.curves === 'object' && merged.curves !== null, `${path}.curves`, 'an object')) {
+    (['master', 'red', 'green', 'blue'] as const).forEach(channel => {
+      const points = merged.curves[channel];
+      v.check(
+        Array.isArray(points) && points.length >= 2 && points.every((p: any) => [p?.x, p?.y].every(n => typeof n === 'number' && n >= 0 && n <= 255)),
+        `${path}.curves.${channel}`,
+        'a list of at least two points between 0 and 255'
+      );
+    });
+  }
+  if (merged.lut !== null && v.check(typeof merged.lut === 'object', `${path}.lut`, 'null or an object')) {
+    v.string(merged.lut.id, `${path}.lut.id`);
+    v.string(merged.lut.name, `${path}.lut.name`);
+    v.number(merged.lut.intensity, `${path}.lut.intensity`, 0, 1);
+  }
+  return merged;
+};
+
+const validateLut = (v: Validator, lut: any, path: string): CubeLut => {
+  if (!v.check(typeof lut === 'object' && lut !== null, path, 'an object')) return lut;
+  v.string(lut.title, `${path}.title`);
+  v.check(Number.isInteger(lut.size) && lut.size >= 2 && lut.size <= 256, `${path}.size`, 'a whole number between 2 and 256');
+  const isTriple = (value: any) => Array.isArray(value) && value.length === 3 && value.every((n: any) => typeof n === 'number');
+  v.check(isTriple(lut.domainMin), `${path}.domainMin`, 'three numbers');
+  v.check(isTriple(lut.domainMax), `${path}.domainMax`, 'three numbers');
+  v.check(
+    Array.isArray(lut.table) && lut.table.length === lut.size ** 3 * 3 && lut.table.every((n: any) => typeof n === 'number'),
+    `${path}.table`,
+    `${lut.size}³ RGB triples`
+  );
+  return lut;
+};
+
+const validateFrameEdit = (v: Validator, edit: any, path: string): FrameEdit | null => {
+  if (edit === undefined || edit === null) return null;
+  if (!v.check(typeof edit === 'object', path, 'null or an object')) return null;
+  v.check(typeof edit.original === 'string' && edit.original.startsWith('data:image/'), `${path}.original`, 'an image data URL');
+  const history = v.check(Array.isArray(edit.history), `${path}.history`, 'a list')
+    ? edit.history.map((params: any, i: number) => validateEditorParams(v, params, `${path}.history[${i}]`))
+    : [];
+  const luts: Record<string, CubeLut> = {};
+  if (edit.luts !== undefined && v.check(typeof edit.luts === 'object' && edit.luts !== null, `${path}.luts`, 'an object')) {
+    Object.entries(edit.luts).forEach(([id, lut]) => { luts[id] = validateLut(v, lut, `${path}.luts.${id}`); });
+  }
+  return { original: edit.original, params: validateEditorParams(v, edit.params, `${path}.params`), history, luts };
+};
+
+const validateScene = (v: Validator, scene: any): SceneSettings => {
+  if (!v.check(typeof scene === 'object' && scene !== null, 'scene', 'an object')) return scene;
+  v.string(scene.prompt, 'scene.prompt');
+  v.string(scene.activePreset, 'scene.activePreset');
+  v.boolean(scene.isAdvancedMode, 'scene.isAdvancedMode');
+  v.string(scene.camAngle, 'scene.camAngle');
+  v.string(scene.motionType, 'scene.motionType');
+  v.stringArray(scene.atmosphere, 'scene.atmosphere');
+  v.number(scene.speed, 'scene.speed', 0.1, 4);
+  v.boolean(scene.motionBlur, 'scene.motionBlur');
+  v.boolean(scene.stabilization, 'scene.stabilization');
+  v.string(scene.selectedBgMusicId, 'scene.selectedBgMusicId');
+  v.string(scene.selectedSfxId, 'scene.selectedSfxId');
+  v.number(scene.bgMusicVolume, 'scene.bgMusicVolume', 0, 1);
+  v.number(scene.sfxVolume, 'scene.sfxVolume', 0, 1);
+  v.oneOf(scene.aspectRatio, 'scene.aspectRatio', ['16:9', '9:16']);
+  v.oneOf(scene.resolution, 'scene.resolution', ['720p', '1080p']);
+  if (scene.promptVariables !== undefined && v.check(Array.isArray(scene.promptVariables), 'scene.promptVariables', 'a list')) {
+    scene.promptVariables.forEach((variable: any, i: number) => {
+      v.string(variable?.name, `scene.promptVariables[${i}].name`);
+      v.stringArray(variable?.values, `scene.promptVariables[${i}].values`);
+    });
+  }
+  if (scene.phrasebook !== undefined) v.string(scene.phrasebook, 'scene.phrasebook');
+  if (scene.negativePrompt !== undefined) v.string(scene.negativePrompt, 'scene.negativePrompt');
+  if (scene.seed !== undefined && scene.seed !== null) v.check(Number.isInteger(scene.seed) && scene.seed >= 0 && scene.seed <= MAX_SEED, 'scene.seed', 'null or a whole number');
+  if (scene.seedLocked !== undefined) v.boolean(scene.seedLocked, 'scene.seedLocked');
+  v.image(scene.startImage, 'scene.startImage');
+  v.image(scene.endImage, 'scene.endImage');
+  return {
+    ...scene,
+    audioTimeline: validateTimeline(v, scene.audioTimeline, 'scene.audioTimeline'),
+    tempoHint: scene.tempoHint ?? false,
+    promptVariables: scene.promptVariables ?? [],
+    phrasebook: scene.phrasebook ?? DEFAULT_SCENE_SETTINGS.phrasebook,
+    negativePrompt: scene.negativePrompt ?? '',
+    seed: scene.seed ?? null,
+    seedLocked: scene.seedLocked ?? false,
+    startImageEdit: validateFrameEdit(v, scene.startImageEdit, 'scene.startImageEdit'),
+    endImageEdit: validateFrameEdit(v, scene.endImageEdit, 'scene.endImageEdit')
+  };
+};
+
+const validateStoryboard = (v: Validator, storyboard: any): StoryboardKeyframe[] => {
+  if (!v.check(Array.isArray(storyboard), 'storyboard', 'a list')) return [];
+  storyboard.forEach((kf: any, i: number) => {
+    v.string(kf?.id, `storyboard[${i}].id`);
+    v.check(typeof kf?.image === 'string' && kf.image.startsWith('data:image/'), `storyboard[${i}].image`, 'an image data URL');
+    v.string(kf?.prompt, `storyboard[${i}].prompt`);
+    v.string(kf?.camAngle, `storyboard[${i}].camAngle`);
+    v.string(kf?.motionType, `storyboard[${i}].motionType`);
+    v.stringArray(kf?.atmosphere, `storyboard[${i}].atmosphere`);
+  });
+  return storyboard;
+};
+
+/**
+ * Migrates a parsed project of any known version to the current one and checks its shape.
+ * Throws a ProjectFileError listing the first few problems when the file is unusable.
+ */
+export const parseProject = (raw: unknown): ProjectFile => {
+  const project = migrate(raw);
+  const v = new Validator();
+  v.string(project.name, 'name');
+  v.number(project.savedAt, 'savedAt', 0);
+  v.boolean(project.isStoryboardMode, 'isStoryboardMode');
+  const scene = validateScene(v, project.scene);
+  const storyboard = validateStoryboard(v, project.storyboard);
+
+  if (v.errors.length > 0) throw new ProjectFileError(`Invalid project file: ${v.summary()}`);
+  return { ...project, scene, storyboard };
+};
+
+export const createProjectFile = (name: string, snapshot: ProjectSnapshot): ProjectFile => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  name,
+  savedAt: Date.now(),
+  ...snapshot
+});
+
+export const exportProjectJson = (project: ProjectFile) =>
+  new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' });
+
+/**
+ * Writes the project as a ZIP with each frame, and the original of each edited frame,
+ * stored as its own image file.
+ */
+export const exportProjectZip = async (project: ProjectFile): Promise<Blob> => {
+  const frames: { name: string; data: Uint8Array }[] = [];
+  const toRef = (image: string | null, key: string) => {
+    if (!image) return image;
+    const { bytes, mimeType } = dataUrlToBytes(image);
+    const name = `frames/${key}.${imageExtensionFor(mimeType)}`;
+    frames.push({ name, data: bytes });
+    return `${BUNDLE_REF_PREFIX}${name}`;
+  };
+  const editRef = (edit: FrameEdit | null | undefined, key: string) => edit && { ...edit, original: toRef(edit.original, key) };
+
+  const manifest = {
+    ...project,
+    scene: {
+      ...project.scene,
+      startImage: toRef(project.scene.startImage, 'start'),
+      endImage: toRef(project.scene.endImage, 'end'),
+      startImageEdit: editRef(project.scene.startImageEdit, 'start-original'),
+      endImageEdit: editRef(project.scene.endImageEdit, 'end-original')
+    },
+    storyboard: project.storyboard.map((kf, i) => ({ ...kf, image: toRef(kf.image, `storyboard-${i + 1}`) }))
+  };
+
+  return createZip([{ name: BUNDLE_MANIFEST, data: JSON.stringify(manifest, null, 2) }, ...frames]);
+};
+
+const resolveBundleRefs = (manifest: any, files: Map<string, Uint8Array>) => {
+  const resolve = (value: any) => {
+    if (typeof value !== 'string' || !value.startsWith(BUNDLE_REF_PREFIX)) return value;
+    const path = value.slice(BUNDLE_REF_PREFIX.length);
+    const bytes = files.get(path);
+    if (!bytes) throw new ProjectFileError(`The bundle is missing ${path}.`);
+    return bytesToDataUrl(bytes, mimeTypeForImagePath(path));
+  };
+  if (manifest?.scene) {
+    manifest.scene.startImage = resolve(manifest.scene.startImage);
+    manifest.scene.endImage = resolve(manifest.scene.endImage);
+    if (manifest.scene.startImageEdit) manifest.scene.startImageEdit.original = resolve(manifest.scene.startImageEdit.original);
+    if (manifest.scene.endImageEdit) manifest.scene.endImageEdit.original = resolve(manifest.scene.endImageEdit.original);
+  }
+  if (Array.isArray(manifest?.storyboard)) {
+    manifest.storyboard.forEach((kf: any) => { if (kf) kf.image = resolve(kf.image); });
+  }
+  return manifest;
+};
+
+/**
+ * Opens a `.json` project or a `.zip` bundle.
+ */
+export const importProjectFile = async (file: Blob): Promise<ProjectFile> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let raw: unknown;
+  try {
+    if (isZip(bytes)) {
+      const files = await readZip(file);
+      const manifest = files.get(BUNDLE_MANIFEST);
+      if (!manifest) throw new ProjectFileError(`The bundle has no ${BUNDLE_MANIFEST}.`);
+      raw = resolveBundleRefs(JSON.parse(new TextDecoder().decode(manifest)), files);
+    } else {
+      raw = JSON.parse(new TextDecoder().decode(bytes));
+    }
+  } catch (err) {
+    if (err instanceof ProjectFileError) throw err;
+    throw new ProjectFileError(`Could not read the project file (${(err as Error).message}).`);
+  }
+  return parseProject(raw);
+};
+
+/**
+ * Persists the working project to localStorage. Frames can exceed the storage quota,
+ * in which case the project is kept without them rather than not at all.
+ * Returns false when the frames had to be dropped.
+ */
+export const saveAutosave = (project: ProjectFile): boolean => {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(project));
+    return true;
+  } catch {
+    const withoutFrames: ProjectFile = {
+      ...project,
+      scene: { ...project.scene, startImage: null, endImage: null, startImageEdit: null, endImageEdit: null },
+      storyboard: []
+    };
+    try {
+      localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(withoutFrames));
+    } catch (err) {
+      console.warn("Autosave failed", err);
+    }
+    return false;
+  }
+};
+
+export const loadAutosave = (): ProjectFile | null => {
+  const stored = localStorage.getItem(AUTOSAVE_KEY);
+  if (!stored) return null;
+  try {
+    return parseProject(JSON.parse(stored));
+  } catch (err) {
+    console.warn("Discarding unreadable autosave", err);
+    return null;
+  }
+};
@@ -0,0 +1,167 @@
+
+import { AspectRatio, Resolution } from '../types';
+import { drawCover, getFrameSize, loadVideo, pickRecorderMimeType, RecorderFormat } from '../utils/media';
+import { loadSoundtrack, scheduleSoundtrack, SoundtrackBuffers, SoundtrackMix } from './audioEngine';
+import { GenerationError } from './errors';
+
+const EXPORT_FPS = 30;
+
+export interface SequenceExportOptions {
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  format: RecorderFormat;
+  crossfadeMs: number;
+  soundtrack?: SoundtrackMix;
+  beatGrid?: number[]; // beat times (s) from the start of the sequence; cuts snap to them
+  onProgress?: (progress: number) => void; // 0-1
+  signal?: AbortSignal;
+}
+
+export interface SequenceExportResult {
+  blob: Blob;
+  mimeType: string;
+  durationMs: number;
+}
+
+/**
+ * Joins clips in order into a single recording by replaying them onto a canvas in real time.
+ * Adjacent clips overlap by `crossfadeMs` and are blended, picture and sound alike.
+ * An optional soundtrack is laid over the whole sequence, timed from its first frame.
+ * Recording happens at playback speed, so an export takes as long as the finished sequence.
+ */
+export const exportSequence = async (sources: string[], options: SequenceExportOptions): Promise<SequenceExportResult> => {
+  if (sources.length === 0) throw new GenerationError('invalid-input', "Select at least one clip to export.");
+
+  const [width, height] = getFrameSize(options.aspectRatio, options.resolution);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context is unavailable.");
+
+  const videos = await Promise.all(sources.map(loadVideo));
+  const durations = videos.map(v => v.duration * 1000);
+  if (durations.some(d => !isFinite(d) || d <= 0)) {
+    videos.forEach(v => { v.removeAttribute('src'); v.load(); });
+    throw new GenerationError('invalid-input', "Could not read the length of one of the clips.");
+  }
+  // A crossfade can never be longer than the shorter of the two clips it joins
+  const fades = durations.slice(1).map((d, i) => Math.min(options.crossfadeMs, d, durations[i]));
+  const starts: number[] = [];
+  let cursor = 0;
+  durations.forEach((d, i) => {
+    starts.push(cursor);
+    if (i === durations.length - 1) return;
+    let cut = cursor + d - fades[i];
+    // Pull the cut back to the last beat before it, never trimming a clip by more than half
+    const beat = options.beatGrid
+      ?.map(b => b * 1000)
+      .filter(b => b <= cut && b > cursor + d / 2)
+      .pop();
+    if (beat !== undefined) {
+      durations[i] = beat - cursor + fades[i];
+      cut = beat;
+    }
+    cursor = cut;
+  });
+  const totalMs = starts[starts.length - 1] + durations[durations.length - 1];
+
+  // Route each clip's soundtrack through its own gain so it can fade with the picture
+  const audioContext = new AudioContext();
+  const audioDestination = audioContext.createMediaStreamDestination();
+  const gains = videos.map(video => {
+    const gain = audioContext.createGain();
+    audioContext.createMediaElementSource(video).connect(gain).connect(audioDestination);
+    return gain;
+  });
+
+  let soundtrackBuffers: SoundtrackBuffers | null = null;
+  if (options.soundtrack) {
+    try {
+      soundtrackBuffers = await loadSoundtrack(audioContext, options.soundtrack);
+    } catch (err) {
+      audioContext.close().catch(() => {});
+      throw err;
+    }
+  }
+  let stopSoundtrack = () => {};
+
+  const stream = canvas.captureStream(EXPORT_FPS);
+  audioDestination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+
+  const mimeType = pickRecorderMimeType(options.format);
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  const started = videos.map(() => false);
+  let recording = false;
+  const cleanup = () => {
+    videos.forEach(v => { v.pause(); v.removeAttribute('src'); v.load(); });
+    stopSoundtrack();
+    audioContext.close().catch(() => {});
+  };
+
+  try {
+    await audioContext.resume();
+    recorder.start();
+    recording = true;
+    if (options.soundtrack && soundtrackBuffers) {
+      stopSoundtrack = scheduleSoundtrack(audioContext, audioDestination, options.soundtrack, soundtrackBuffers, {
+        from: 0,
+        when: audioContext.currentTime,
+        duration: totalMs / 1000
+      });
+    }
+    const startedAt = performance.now();
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setInterval(() => {
+        if (options.signal?.aborted) {
+          clearInterval(timer);
+          reject(new GenerationError('cancelled', "The export was cancelled."));
+          return;
+        }
+
+        const t = performance.now() - startedAt;
+        ctx.globalAlpha = 1;
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, width, height);
+
+        videos.forEach((video, i) => {
+          const localT = t - starts[i];
+          if (localT < 0) return;
+          if (localT >= durations[i]) {
+            if (!video.paused) video.pause();
+            return;
+          }
+          if (!started[i]) {
+            started[i] = true;
+            video.currentTime = 0;
+            video.play().catch(() => {});
+          }
+          const fadeIn = i > 0 && fades[i - 1] > 0 ? Math.min(localT / fades[i - 1], 1) : 1;
+          ctx.globalAlpha = fadeIn;
+          drawCover(ctx, video);
+          gains[i].gain.value = fadeIn;
+          if (i > 0) gains[i - 1].gain.value = Math.min(gains[i - 1].gain.value, 1 - fadeIn);
+        });
+
+        options.onProgress?.(Math.min(t / totalMs, 1));
+        if (t >= totalMs) {
+          clearInterval(timer);
+          resolve();
+        }
+      }, 1000 / EXPORT_FPS);
+    });
+  } finally {
+    if (recording) {
+      recorder.stop();
+      await stopped;
+    }
+    cleanup();
+  }
+
+  return { blob: new Blob(chunks, { type: recorder.mimeType || 'video/webm' }), mimeType: recorder.mimeType || 'video/webm', durationMs: totalMs };
+};
@@ -8,14 +8,434 @@ export interface GenerationParams {
   endImage?: string;   // base64
   aspectRatio: AspectRatio;
   resolution: Resolution;
+  negativePrompt?: string; // content the model should avoid
+  seed?: number;           // recorded with the take; only backends that accept a seed (Vertex AI) use it
 }
 
+/**
+ * Everything needed to restore the Director's Suite to a given configuration.
+ */
+export interface SceneSettings {
+  prompt: string;
+  activePreset: string;
+  isAdvancedMode: boolean;
+  camAngle: string;
+  motionType: string;
+  atmosphere: string[];
+  speed: number;
+  motionBlur: boolean;
+  stabilization: boolean;
+  selectedBgMusicId: string;
+  selectedSfxId: string;
+  bgMusicVolume: number;
+  sfxVolume: number;
+  audioTimeline?: AudioTimeline; // absent on renders saved before the audio timeline existed
+  tempoHint?: boolean;          // mention the music's tempo in the engine prompt
+  promptVariables?: PromptVariable[];
+  phrasebook?: string;          // id of the phrasebook the engine prompt is worded with
+  negativePrompt?: string;
+  seed?: number | null;         // the seed of the last render, or the one to reuse while locked
+  seedLocked?: boolean;         // reuse `seed` for every render instead of drawing a new one
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  startImage: string | null;
+  endImage: string | null;
+  startImageEdit?: FrameEdit | null; // how startImage was produced in the frame editor
+  endImageEdit?: FrameEdit | null;
+}
+
+/** A `{{name}}` placeholder in the prompt and the values it can take. The first value is used for single renders. */
+export interface PromptVariable {
+  name: string;
+  values: string[];
+}
+
+/** One value chosen for each prompt variable, keyed by variable name. */
+export type VariableBinding = Record<string, string>;
+
+export type AudioKind = 'music' | 'sfx';
+
+/** An audio file uploaded by the user, stored locally alongside the built-in library. */
+export interface AudioAsset {
+  id: string;
+  kind: AudioKind;
+  name: string;
+  blob: Blob;
+  mimeType: string;
+  duration: number; // seconds
+  peaks: number[];  // normalized 0-1 amplitude buckets for the waveform thumbnail
+  createdAt: number;
+}
+
+/** One entry in the music or SFX picker, either built-in or uploaded. */
+export interface AudioOption {
+  id: string;
+  name: string;
+  icon: string;
+  url: string;
+  duration?: number;
+  peaks?: number[];
+  custom?: boolean;
+}
+
+/** The music and SFX choices the scene analysis may suggest from. */
+export interface AudioCatalog {
+  music: AudioOption[];
+  sfx: AudioOption[];
+}
+
+/** Tempo estimate for a music track. Beat times are seconds into the track. */
+export interface TempoAnalysis {
+  bpm: number;
+  beats: number[];
+  duration: number; // track length in seconds
+  confidence: number; // 0-1, how strongly the onsets repeat at this tempo
+}
+
+/** A one-shot sound effect fired at a fixed point of the clip. */
+export interface SfxCue {
+  id: string;
+  sfxId: string;
+  at: number;     // seconds into the video
+  volume: number; // 0-1
+}
+
+/**
+ * How the music bed and SFX cues line up against the video. All times are in seconds.
+ * With no cues, the selected SFX keeps looping under the whole clip as before.
+ */
+export interface AudioTimeline {
+  cues: SfxCue[];
+  musicTrimStart: number;       // skip this much of the track's head
+  musicTrimEnd: number | null;  // loop back before this point (null = end of track)
+  musicOffset: number;          // video time at which the bed comes in
+  fadeIn: number;
+  fadeOut: number;
+  duckLevel: number;            // music gain multiplier while a cue plays (1 = no ducking)
+}
+
+/**
+ * One keyframe in storyboard mode. Each keyframe's prompt and camera settings
+ * describe the shot that starts at it and ends at the next keyframe.
+ */
+export interface StoryboardKeyframe {
+  id: string;
+  image: string;
+  prompt: string;
+  camAngle: string;
+  motionType: string;
+  atmosphere: string[];
+}
+
+export type ResamplingQuality = 'nearest' | 'bilinear' | 'bicubic';
+
+/** The framing of a keyframe, locked to the project's aspect ratio. */
+export interface FrameCrop {
+  x: number;    // center, as a fraction of the rotated image's width
+  y: number;    // center, as a fraction of its height
+  zoom: number; // 1 = the largest frame that fits
+}
+
+/** A control point on a tone curve, input to output, both 0-255. */
+export interface CurvePoint {
+  x: number;
+  y: number;
+}
+
+export type CurveChannel = 'master' | 'red' | 'green' | 'blue';
+
+export type ToneCurves = Record<CurveChannel, CurvePoint[]>;
+
+/** Per-channel curves that move one frame's colors onto another's. */
+export type MatchCurves = Record<'red' | 'green' | 'blue', CurvePoint[]>;
+
+export interface LevelsAdjustment {
+  inputBlack: number;
+  inputWhite: number;
+  gamma: number;
+  outputBlack: number;
+  outputWhite: number;
+}
+
+/** A parsed `.cube` 3D LUT. `table` holds size³ RGB triples with red varying fastest. */
+export interface CubeLut {
+  title: string;
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  table: number[];
+}
+
+/** The LUT a frame is graded with. The table itself is kept once per frame, in `FrameEdit.luts`. */
+export interface LutRef {
+  id: string;
+  name: string;
+  intensity: number; // 0-1 blend with the ungraded color
+}
+
+/** The Cinematic Frame Editor's adjustments to a keyframe. */
+export interface EditorParams {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  hue: number;
+  vignette: number;
+  grayscale: boolean;
+  sepia: boolean;
+  rotation: number;    // Z-axis, degrees
+  rotateX: number;     // pitch, degrees
+  rotateY: number;     // yaw, degrees
+  perspective: number; // viewing distance, in px of a frame whose longer side is 1000px
+  cameraShake: number; // preview only
+  crop: FrameCrop;
+  resampling: ResamplingQuality;
+  temperature: number; // -100 (cool) to 100 (warm)
+  tint: number;        // -100 (green) to 100 (magenta)
+  levels: LevelsAdjustment;
+  curves: ToneCurves;
+  lut: LutRef | null;
+}
+
+/**
+ * A frame's editor state, kept next to the processed image so reopening the editor
+ * starts from the original with the same sliders instead of compounding edits.
+ */
+export interface FrameEdit {
+  original: string;
+  params: EditorParams;
+  history: EditorParams[]; // undo stack
+  luts?: Record<string, CubeLut>; // tables for the LUTs `params` and `history` refer to
+}
+
+export interface RenderSequenceRef {
+  id: string;
+  index: number; // 0-based shot position
+  total: number;
+}
+
+/** The creative settings a preset captures. */
+export type PresetSettings = Pick<
+  SceneSettings,
+  'prompt' | 'isAdvancedMode' | 'camAngle' | 'motionType' | 'atmosphere' | 'speed' | 'motionBlur' | 'stabilization'
+>;
+
+export type PromptSettings = PresetSettings & {
+  tempoBpm?: number;   // set when the prompt should carry a tempo hint
+  phrasebook?: string; // defaults to the standard English wording
+};
+
+/** The setting each part of the engine prompt was generated from. */
+export type PromptFragmentSource =
+  | 'prompt'
+  | 'camAngle'
+  | 'motionType'
+  | 'atmosphere'
+  | 'speed'
+  | 'tempo'
+  | 'motionBlur'
+  | 'stabilization';
+
+export interface PromptFragment {
+  source: PromptFragmentSource;
+  text: string;
+}
+
+export interface EnginePrompt {
+  prompt: string;
+  fragments: PromptFragment[];
+}
+
+/**
+ * The wording used to turn settings into prompt sentences. Term tables are keyed by the
+ * ids in `ADVANCED_*`; missing entries fall back to the standard phrasebook.
+ */
+export interface Phrasebook {
+  id: string;
+  name: string;
+  camAngles: Record<string, string>;
+  motions: Record<string, string>;
+  atmospheres: Record<string, string>;
+  camAngle: (angle: string) => string;
+  motionType: (motion: string, hasAtmosphere: boolean) => string; // may leave the sentence for `atmosphere` to finish
+  atmosphere: (effects: string[]) => string;
+  slow: string;
+  fast: string;
+  tempo: (bpm: number) => string;
+  motionBlur: string;
+  stabilization: string;
+}
+
+/** A user-saved preset shown in the preset bar next to the built-in ones. */
+export interface CustomPreset {
+  id: string;
+  name: string;
+  icon: string;
+  category: string;
+  settings: PresetSettings;
+  createdAt: number;
+}
+
+/** A shareable file of custom presets. */
+export interface PresetPack {
+  format: 'gemini-animator-presets';
+  version: number;
+  name: string;
+  presets: CustomPreset[];
+}
+
+export type GenerationStage = 'submitting' | 'submitted' | 'polling' | 'retrying' | 'downloading' | 'complete';
+
+export type BatchRowStatus = 'invalid' | 'pending' | 'running' | 'mixing' | 'complete' | 'failed' | 'cancelled';
+
+/** One row of a batch manifest, validated and resolved against the uploaded images. */
+export interface BatchRow {
+  row: number;                    // 1-based data row number in the manifest
+  source: Record<string, string>; // the row as written, keyed by normalized column name
+  params?: GenerationParams;      // absent when the row failed validation
+  music?: { id: string; volume: number };
+  errors: string[];
+  status: BatchRowStatus;
+  progress: number;
+  result?: Blob;
+  fileName?: string;              // path of the clip inside the results archive
+}
+
+export interface GenerationProgressEvent {
+  stage: GenerationStage;
+  progress: number;  // 0-100
+  attempt: number;   // number of completed status polls
+  elapsedMs: number; // time since the job was submitted
+  operationName?: string;
+  retry?: { count: number; max: number; errorCode: GenerationErrorCode }; // set while stage is 'retrying'
+}
+
+export interface GenerationRunOptions {
+  onProgress?: (event: GenerationProgressEvent) => void;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  startedAt?: number;           // defaults to now; resumed jobs pass their original submit time
+  estimatedDurationMs?: number; // drives time-based progress
+}
+
+export type GenerationErrorCode =
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'invalid-input'
+  | 'network'
+  | 'empty-result'
+  | 'cancelled'
+  | 'timeout'
+  | 'unknown';
+
+export interface GenerationResult {
+  blob: Blob;
+  mimeType: string;
+  uri: string;
+  operationName?: string;
+}
+
+export interface SceneSuggestion {
+  cameraAngle: string;
+  motionType: string;
+  atmosphere: string[];
+  prompt: string;
+  directorVision: string;
+  suggestedAudio?: string;
+  suggestedSfx?: string;
+  speed?: number;
+}
+
+export type GenerationBackend = 'gemini' | 'mock';
+
+/**
+ * A backend capable of rendering clips and analyzing frames.
+ * The dashboard only talks to providers through this interface.
+ */
+export interface GenerationProvider {
+  id: GenerationBackend;
+  label: string;
+  requiresApiKey: boolean;
+  supportsSeed: boolean; // whether `params.seed` reaches the model
+  generateVideo: (params: GenerationParams, options?: GenerationRunOptions) => Promise<GenerationResult>;
+  resumeVideo: (operationName: string, params: GenerationParams, options?: GenerationRunOptions) => Promise<GenerationResult>;
+  analyzeFrames: (startImage: string, endImage?: string | null, audioCatalog?: AudioCatalog) => Promise<SceneSuggestion>;
+}
+
+/** Draws a stand-in clip for the offline mock backend. */
+export type ClipSynthesizer = (params: GenerationParams, signal?: AbortSignal) => Promise<Blob>;
+
 export interface GenerationState {
   isGenerating: boolean;
   status: string;
   progress: number;
   error?: string;
+  errorCode?: GenerationErrorCode;
   videoUrl?: string;
+  startedAt?: number;
+  estimatedMs?: number;
+}
+
+export type RenderJobPhase = 'queued' | 'running' | 'complete' | 'failed' | 'cancelled';
+
+/**
+ * A single entry in the render queue. Each job carries its own generation state
+ * so the output panel can display whichever job is focused.
+ */
+export interface RenderJob extends GenerationState {
+  id: string;
+  label: string;
+  params: GenerationParams;
+  phase: RenderJobPhase;
+  createdAt: number;
+  settings?: SceneSettings;
+  operationName?: string; // set once the backend has accepted the job
+  sequence?: RenderSequenceRef; // set for storyboard shots
+}
+
+/**
+ * An in-flight backend operation persisted so polling can resume after a reload.
+ */
+export interface PendingOperation {
+  jobId: string;
+  backend: GenerationBackend;
+  operationName: string;
+  label: string;
+  params: GenerationParams;
+  settings?: SceneSettings;
+  sequence?: RenderSequenceRef;
+  submittedAt: number;
+}
+
+/**
+ * A finished render persisted in IndexedDB together with the settings that produced it.
+ */
+export interface RenderHistoryEntry {
+  id: string;
+  createdAt: number;
+  label: string;
+  blob: Blob;
+  mimeType: string;
+  enginePrompt: string;
+  settings: SceneSettings;
+}
+
+/** Everything needed to restore the Director's Suite. */
+export interface ProjectSnapshot {
+  scene: SceneSettings;
+  storyboard: StoryboardKeyframe[];
+  isStoryboardMode: boolean;
+}
+
+/**
+ * A saved project. `version` is bumped whenever the shape changes and older
+ * files are migrated forward on load (see services/projectFile.ts).
+ */
+export interface ProjectFile extends ProjectSnapshot {
+  format: 'gemini-animator-project';
+  version: number;
+  name: string;
+  savedAt: number;
 }
 
 // Window extensions for AI Studio
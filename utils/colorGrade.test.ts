@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EDITOR_PARAMS } from '../constants';
+import { CubeLut, EditorParams } from '../types';
+import { applyMatchCurves, computeHistogram, gradePixels, Histogram, LutParseError, matchCurves, parseCubeLut, sampleCurve } from './colorGrade';
+
+// A 2-point identity cube, red changing fastest
+const IDENTITY_ENTRIES = [
+  '0 0 0', '1 0 0', '0 1 0', '1 1 0',
+  '0 0 1', '1 0 1', '0 1 1', '1 1 1'
+];
+const cube = (...lines: string[]) => lines.join('\n');
+
+const params = (overrides: Partial<EditorParams> = {}): EditorParams => ({ ...DEFAULT_EDITOR_PARAMS, ...overrides });
+
+// Node has no ImageData; gradePixels only reads and writes `data`
+const pixels = (...colors: [number, number, number][]) =>
+  ({ data: new Uint8ClampedArray(colors.flatMap(c => [...c, 255])), width: colors.length, height: 1 }) as ImageData;
+const graded = (colors: [number, number, number][], editor: EditorParams, lut?: CubeLut) => {
+  const image = pixels(...colors);
+  gradePixels(image, editor, lut);
+  return colors.map((_, i) => Array.from(image.data.slice(i * 4, i * 4 + 3)));
+};
+
+describe('parseCubeLut', () => {
+  it('reads a 3D LUT, skipping comments and unknown keywords', () => {
+    const lut = parseCubeLut(cube('# made by hand', 'TITLE "Neutral"', 'LUT_3D_SIZE 2', 'LUT_3D_INPUT_RANGE 0 1', '', ...IDENTITY_ENTRIES), 'file.cube');
+    expect(lut.title).toBe('Neutral');
+    expect(lut.size).toBe(2);
+    expect(lut.domainMin).toEqual([0, 0, 0]);
+    expect(lut.domainMax).toEqual([1, 1, 1]);
+    expect(lut.table).toHaveLength(24);
+    expect(lut.table.slice(3, 6)).toEqual([1, 0, 0]);
+  });
+
+  it('falls back to the given title', () => {
+    expect(parseCubeLut(cube('LUT_3D_SIZE 2', ...IDENTITY_ENTRIES), 'file.cube').title).toBe('file.cube');
+  });
+
+  it('rejects 1D LUTs', () => {
+    expect(() => parseCubeLut(cube('LUT_1D_SIZE 2', '0 0 0', '1 1 1'), 'file.cube')).toThrow(LutParseError);
+    expect(() => parseCubeLut(cube('LUT_1D_SIZE 2'), 'file.cube')).toThrow(/1D LUTs aren't supported/);
+  });
+
+  it('rejects a table with the wrong number of entries', () => {
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE 2', ...IDENTITY_ENTRIES.slice(1)), 'file.cube')).toThrow('Expected 8 entries for a 2-point LUT, found 7.');
+  });
+
+  it('rejects a missing or out-of-range size and malformed entries', () => {
+    expect(() => parseCubeLut(cube(...IDENTITY_ENTRIES), 'file.cube')).toThrow(/no valid LUT_3D_SIZE/);
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE 1', '0 0 0'), 'file.cube')).toThrow(/no valid LUT_3D_SIZE/);
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE 2', '0 0'), 'file.cube')).toThrow('Line 2 should hold three numbers.');
+  });
+
+  it('reads DOMAIN_MIN and DOMAIN_MAX and checks their order', () => {
+    const lut = parseCubeLut(cube('LUT_3D_SIZE 2', 'DOMAIN_MIN 0 0.1 0', 'DOMAIN_MAX 0.5 1 1', ...IDENTITY_ENTRIES), 'file.cube');
+    expect(lut.domainMin).toEqual([0, 0.1, 0]);
+    expect(lut.domainMax).toEqual([0.5, 1, 1]);
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE 2', 'DOMAIN_MIN 0 0 1', 'DOMAIN_MAX 1 1 1', ...IDENTITY_ENTRIES), 'file.cube')).toThrow(/DOMAIN_MIN should be below DOMAIN_MAX/);
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE 2', 'DOMAIN_MAX 1 1', ...IDENTITY_ENTRIES), 'file.cube')).toThrow('Line 2 should hold three numbers.');
+  });
+});
+
+describe('sampleCurve', () => {
+  it('samples the identity curve as the identity', () => {
+    const samples = sampleCurve(DEFAULT_EDITOR_PARAMS.curves.master);
+    expect(Array.from(samples)).toEqual(Array.from({ length: 256 }, (_, i) => i));
+  });
+
+  it('handles curves with no or one point', () => {
+    expect(sampleCurve([])[200]).toBe(200);
+    expect(Array.from(new Set(sampleCurve([{ x: 90, y: 40 }])))).toEqual([40]);
+  });
+
+  it('passes through its points and holds the end values beyond them', () => {
+    const samples = sampleCurve([{ x: 200, y: 230 }, { x: 40, y: 20 }, { x: 128, y: 150 }]);
+    expect(samples[0]).toBe(20);
+    expect(samples[40]).toBe(20);
+    expect(samples[128]).toBe(150);
+    expect(samples[200]).toBe(230);
+    expect(samples[255]).toBe(230);
+  });
+
+  it('never overshoots between rising points', () => {
+    const samples = sampleCurve([{ x: 0, y: 0 }, { x: 60, y: 200 }, { x: 70, y: 210 }, { x: 255, y: 255 }]);
+    samples.forEach((value, x) => {
+      if (x > 0) expect(value).toBeGreaterThanOrEqual(samples[x - 1]);
+    });
+  });
+
+  it('stays flat across a level stretch', () => {
+    const samples = sampleCurve([{ x: 0, y: 0 }, { x: 100, y: 120 }, { x: 180, y: 120 }, { x: 255, y: 255 }]);
+    expect(Array.from(new Set(samples.slice(100, 181)))).toEqual([120]);
+  });
+});
+
+describe('gradePixels', () => {
+  it('leaves pixels alone at the default params', () => {
+    expect(graded([[12, 128, 250]], params())).toEqual([[12, 128, 250]]);
+  });
+
+  it('stretches levels between the input black and white points', () => {
+    const levels = { ...DEFAULT_EDITOR_PARAMS.levels, inputBlack: 50, inputWhite: 200 };
+    expect(graded([[30, 50, 125], [200, 230, 0]], params({ levels }))).toEqual([[0, 0, 128], [255, 255, 0]]);
+  });
+
+  it('applies gamma and the output range', () => {
+    const levels = { ...DEFAULT_EDITOR_PARAMS.levels, gamma: 2, outputBlack: 20, outputWhite: 220 };
+    // 20 + sqrt(128 / 255) * 200
+    expect(graded([[0, 128, 255]], params({ levels }))).toEqual([[20, 162, 220]]);
+  });
+
+  it('warms and tints by scaling the red, green and blue channels', () => {
+    expect(graded([[100, 100, 100]], params({ temperature: 100 }))).toEqual([[130, 100, 70]]);
+    expect(graded([[100, 100, 100]], params({ temperature: -50 }))).toEqual([[85, 100, 115]]);
+    expect(graded([[100, 100, 100]], params({ tint: 100 }))).toEqual([[100, 70, 100]]);
+    expect(graded([[250, 0, 0]], params({ temperature: 100 }))).toEqual([[255, 0, 0]]);
+  });
+
+  it('applies the master curve before each channel curve', () => {
+    const curves = {
+      ...DEFAULT_EDITOR_PARAMS.curves,
+      master: [{ x: 0, y: 255 }, { x: 255, y: 0 }],
+      red: [{ x: 0, y: 0 }, { x: 128, y: 0 }, { x: 255, y: 255 }]
+    };
+    expect(graded([[255, 255, 55]], params({ curves }))).toEqual([[0, 0, 200]]);
+  });
+
+  it('blends the LUT in at its intensity, sampling within its domain', () => {
+    const inverted = parseCubeLut(cube('LUT_3D_SIZE 2', ...[...IDENTITY_ENTRIES].reverse()), 'invert.cube');
+    const lut = (intensity: number) => params({ lut: { id: 'lut', name: 'LUT', intensity } });
+    expect(graded([[0, 64, 255]], lut(1), inverted)).toEqual([[255, 191, 0]]);
+    expect(graded([[0, 64, 255]], lut(0.5), inverted)).toEqual([[128, 128, 128]]);
+    expect(graded([[0, 64, 255]], lut(1))).toEqual([[0, 64, 255]]);
+
+    const halfDomain = parseCubeLut(cube('LUT_3D_SIZE 2', 'DOMAIN_MAX 0.5 0.5 0.5', ...IDENTITY_ENTRIES), 'half.cube');
+    // Inputs are rescaled to the domain, and clamped beyond it
+    expect(graded([[64, 200, 0]], lut(1), halfDomain)).toEqual([[128, 255, 0]]);
+  });
+});
+
+describe('matchCurves', () => {
+  // Evenly spread levels in [from, to], with blue a little darker than red and green
+  const ramp = (from: number, to: number) =>
+    Array.from({ length: 256 }, (_, i): [number, number, number] => {
+      const v = Math.round(from + ((to - from) * i) / 255);
+      return [v, v, Math.max(v - 10, 0)];
+    });
+  const median = (bins: Uint32Array) => {
+    const total = bins.reduce((sum, count) => sum + count, 0);
+    let cumulative = 0;
+    return bins.findIndex(count => (cumulative += count) >= total / 2);
+  };
+  const matched = (colors: [number, number, number][], source: Histogram, target: Histogram, amount?: number) => {
+    const image = pixels(...colors);
+    gradePixels(image, applyMatchCurves(params(), matchCurves(source, target, amount)));
+    return computeHistogram(image);
+  };
+
+  it('matches a histogram to itself with identity curves', () => {
+    const colors = ramp(30, 220);
+    const histogram = computeHistogram(pixels(...colors));
+    const curves = matchCurves(histogram, histogram);
+    (['red', 'green', 'blue'] as const).forEach(channel => {
+      curves[channel].forEach(point => expect(point.y).toBe(point.x));
+    });
+    expect(graded(colors, applyMatchCurves(params(), curves))).toEqual(colors.map(c => [...c]));
+  });
+
+  it('moves the source onto the target at full strength', () => {
+    const dark = computeHistogram(pixels(...ramp(0, 120)));
+    const bright = computeHistogram(pixels(...ramp(120, 255)));
+    const result = matched(ramp(0, 120), dark, bright);
+    (['red', 'green', 'blue'] as const).forEach(channel => {
+      expect(Math.abs(median(result[channel]) - median(bright[channel]))).toBeLessThanOrEqual(2);
+    });
+  });
+
+  it('meets halfway when both frames move by half', () => {
+    const darkColors = ramp(0, 120);
+    const brightColors = ramp(120, 255);
+    const dark = computeHistogram(pixels(...darkColors));
+    const bright = computeHistogram(pixels(...brightColors));
+    const darkResult = matched(darkColors, dark, bright, 0.5);
+    const brightResult = matched(brightColors, bright, dark, 0.5);
+    (['red', 'green', 'blue'] as const).forEach(channel => {
+      const midpoint = (median(dark[channel]) + median(bright[channel])) / 2;
+      expect(Math.abs(median(darkResult[channel]) - midpoint)).toBeLessThanOrEqual(2);
+      expect(Math.abs(median(brightResult[channel]) - midpoint)).toBeLessThanOrEqual(2);
+    });
+  });
+});
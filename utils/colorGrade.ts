@@ -0,0 +1,295 @@
+
+import { DEFAULT_EDITOR_PARAMS, MAX_CURVE_POINTS } from '../constants';
+import { CubeLut, CurvePoint, EditorParams, LevelsAdjustment, MatchCurves } from '../types';
+
+// Gain applied to the warm/cool and green/magenta channels at full slider travel
+const WHITE_BALANCE_RANGE = 0.3;
+
+// Points of each channel's distribution that auto-match lines up; the tails are left out
+// so a few clipped pixels don't drive the match
+const MATCH_QUANTILES = [0.02, 0.1, 0.25, 0.5, 0.75, 0.9, 0.98];
+
+export class LutParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LutParseError';
+  }
+}
+
+/**
+ * Reads an Adobe/Resolve `.cube` file. Only 3D LUTs are supported; their table lists
+ * RGB triples with red changing fastest.
+ */
+export const parseCubeLut = (text: string, fallbackTitle: string): CubeLut => {
+  let title = fallbackTitle;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const table: number[] = [];
+
+  const triple = (parts: string[], line: number): [number, number, number] => {
+    const values = parts.map(Number);
+    if (values.length !== 3 || values.some(v => !isFinite(v))) throw new LutParseError(`Line ${line} should hold three numbers.`);
+    return values as [number, number, number];
+  };
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+    const [keyword, ...rest] = line.split(/\s+/);
+    switch (keyword) {
+      case 'TITLE':
+        title = line.slice(keyword.length).trim().replace(/^"|"$/g, '') || title;
+        break;
+      case 'LUT_3D_SIZE':
+        size = Number(rest[0]);
+        break;
+      case 'LUT_1D_SIZE':
+        throw new LutParseError("1D LUTs aren't supported; export a 3D .cube instead.");
+      case 'DOMAIN_MIN':
+        domainMin = triple(rest, i + 1);
+        break;
+      case 'DOMAIN_MAX':
+        domainMax = triple(rest, i + 1);
+        break;
+      default:
+        if (/^[A-Z][A-Z0-9_]*$/.test(keyword)) return; // other keywords, e.g. LUT_3D_INPUT_RANGE
+        table.push(...triple([keyword, ...rest], i + 1));
+    }
+  });
+
+  if (!Number.isInteger(size) || size < 2 || size > 256) throw new LutParseError("The file has no valid LUT_3D_SIZE.");
+  if (table.length !== size ** 3 * 3) throw new LutParseError(`Expected ${size ** 3} entries for a ${size}-point LUT, found ${table.length / 3}.`);
+  if (domainMin.some((min, c) => min >= domainMax[c])) throw new LutParseError("DOMAIN_MIN should be below DOMAIN_MAX.");
+  return { title, size, domainMin, domainMax, table };
+};
+
+/**
+ * Samples a curve through its control points at every input level, using monotone cubic
+ * interpolation so the curve never overshoots between points.
+ */
+export const sampleCurve = (points: CurvePoint[]): Uint8Array => {
+  const sorted = [...points].sort((a, b) => a.x - b.x);
+  const out = new Uint8Array(256);
+  const n = sorted.length;
+  if (n === 0) return out.map((_, i) => i);
+  if (n === 1) return out.fill(sorted[0].y);
+
+  const slopes = sorted.slice(0, -1).map((p, i) => (sorted[i + 1].y - p.y) / Math.max(sorted[i + 1].x - p.x, 1e-6));
+  const tangents = sorted.map((_, i) => {
+    if (i === 0) return slopes[0];
+    if (i === n - 1) return slopes[n - 2];
+    return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  });
+  // Fritsch-Carlson: limit the tangents so each segment stays monotone
+  slopes.forEach((slope, i) => {
+    if (slope === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      return;
+    }
+    const a = tangents[i] / slope;
+    const b = tangents[i + 1] / slope;
+    const h = Math.hypot(a, b);
+    if (h > 3) {
+      tangents[i] = (3 / h) * a * slope;
+      tangents[i + 1] = (3 / h) * b * slope;
+    }
+  });
+
+  let segment = 0;
+  for (let x = 0; x < 256; x++) {
+    if (x <= sorted[0].x) { out[x] = sorted[0].y; continue; }
+    if (x >= sorted[n - 1].x) { out[x] = sorted[n - 1].y; continue; }
+    while (x > sorted[segment + 1].x) segment++;
+    const p0 = sorted[segment];
+    const p1 = sorted[segment + 1];
+    const h = p1.x - p0.x;
+    const t = (x - p0.x) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    out[x] = Math.round(
+      (2 * t3 - 3 * t2 + 1) * p0.y + (t3 - 2 * t2 + t) * h * tangents[segment] +
+      (-2 * t3 + 3 * t2) * p1.y + (t3 - t2) * h * tangents[segment + 1]
+    );
+  }
+  return out;
+};
+
+const applyLevels = (value: number, levels: LevelsAdjustment) => {
+  const range = Math.max(levels.inputWhite - levels.inputBlack, 1);
+  const normalized = Math.min(Math.max((value - levels.inputBlack) / range, 0), 1);
+  return levels.outputBlack + Math.pow(normalized, 1 / levels.gamma) * (levels.outputWhite - levels.outputBlack);
+};
+
+/**
+ * Folds white balance, levels, the master curve and each channel's curve into one
+ * lookup table per channel, since all of them map a channel value to a channel value.
+ */
+const buildToneTables = (params: EditorParams): [Uint8Array, Uint8Array, Uint8Array] => {
+  const master = sampleCurve(params.curves.master);
+  const gains = [
+    1 + (WHITE_BALANCE_RANGE * params.temperature) / 100,
+    1 - (WHITE_BALANCE_RANGE * params.tint) / 100,
+    1 - (WHITE_BALANCE_RANGE * params.temperature) / 100,
+  ];
+  return [params.curves.red, params.curves.green, params.curves.blue].map((points, c) => {
+    const channel = sampleCurve(points);
+    const table = new Uint8Array(256);
+    for (let v = 0; v < 256; v++) {
+      const balanced = Math.min(v * gains[c], 255);
+      table[v] = channel[master[Math.round(applyLevels(balanced, params.levels))]];
+    }
+    return table;
+  }) as [Uint8Array, Uint8Array, Uint8Array];
+};
+
+/** Looks up one color in a 3D LUT with trilinear interpolation; `rgb` is 0-255 and is overwritten. */
+const sampleLut = (lut: CubeLut, rgb: number[]) => {
+  const { size, table, domainMin, domainMax } = lut;
+  const max = size - 1;
+  const index = [0, 0, 0];
+  const fraction = [0, 0, 0];
+  for (let c = 0; c < 3; c++) {
+    const position = Math.min(Math.max((rgb[c] / 255 - domainMin[c]) / (domainMax[c] - domainMin[c]), 0), 1) * max;
+    index[c] = Math.min(Math.floor(position), max - 1);
+    fraction[c] = position - index[c];
+  }
+  const [fr, fg, fb] = fraction;
+  for (let c = 0; c < 3; c++) {
+    let value = 0;
+    for (let corner = 0; corner < 8; corner++) {
+      const dr = corner & 1, dg = (corner >> 1) & 1, db = (corner >> 2) & 1;
+      const weight = (dr ? fr : 1 - fr) * (dg ? fg : 1 - fg) * (db ? fb : 1 - fb);
+      if (weight === 0) continue;
+      value += weight * table[(((index[2] + db) * size + index[1] + dg) * size + index[0] + dr) * 3 + c];
+    }
+    rgb[c] = value * 255;
+  }
+};
+
+const isIdentityCurve = (points: CurvePoint[]) => points.every(p => p.x === p.y);
+
+/** Whether the params leave every pixel as it is, so grading can be skipped. */
+export const isNeutralGrade = (params: EditorParams, lut?: CubeLut) => {
+  const levels = DEFAULT_EDITOR_PARAMS.levels;
+  return params.temperature === 0 && params.tint === 0 &&
+    (Object.keys(levels) as (keyof LevelsAdjustment)[]).every(key => params.levels[key] === levels[key]) &&
+    Object.values(params.curves).every(isIdentityCurve) &&
+    !(lut && params.lut && params.lut.intensity > 0);
+};
+
+/**
+ * Grades pixels in place: white balance, levels and curves, then the LUT blended in
+ * at its intensity.
+ */
+export const gradePixels = (image: ImageData, params: EditorParams, lut?: CubeLut) => {
+  const [red, green, blue] = buildToneTables(params);
+  const intensity = lut && params.lut ? params.lut.intensity : 0;
+  const data = image.data;
+  const rgb = [0, 0, 0];
+  for (let i = 0; i < data.length; i += 4) {
+    const r = red[data[i]];
+    const g = green[data[i + 1]];
+    const b = blue[data[i + 2]];
+    if (intensity > 0) {
+      rgb[0] = r; rgb[1] = g; rgb[2] = b;
+      sampleLut(lut!, rgb);
+      data[i] = r + (rgb[0] - r) * intensity;
+      data[i + 1] = g + (rgb[1] - g) * intensity;
+      data[i + 2] = b + (rgb[2] - b) * intensity;
+    } else {
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+    }
+  }
+};
+
+export interface Histogram {
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+  luma: Uint32Array;
+}
+
+/** Counts each channel's levels, plus Rec. 709 luma, over opaque pixels. */
+export const computeHistogram = (image: ImageData): Histogram => {
+  const histogram: Histogram = { red: new Uint32Array(256), green: new Uint32Array(256), blue: new Uint32Array(256), luma: new Uint32Array(256) };
+  const data = image.data;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    histogram.red[data[i]]++;
+    histogram.green[data[i + 1]]++;
+    histogram.blue[data[i + 2]]++;
+    histogram.luma[Math.round(0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2])]++;
+  }
+  return histogram;
+};
+
+type MatchChannel = keyof MatchCurves;
+
+const MATCH_CHANNELS: MatchChannel[] = ['red', 'green', 'blue'];
+
+/** The level below which each of MATCH_QUANTILES of a channel's pixels fall. */
+const channelQuantiles = (bins: Uint32Array) => {
+  const total = bins.reduce((sum, count) => sum + count, 0);
+  let cumulative = 0;
+  let level = 0;
+  return MATCH_QUANTILES.map(q => {
+    while (level < 255 && cumulative + bins[level] < q * total) cumulative += bins[level++];
+    return level;
+  });
+};
+
+/**
+ * Curves that line each channel's distribution in `source` up with `target`'s by matching
+ * their quantiles. `amount` moves only part of the way, e.g. 0.5 to meet halfway.
+ */
+export const matchCurves = (source: Histogram, target: Histogram, amount = 1): MatchCurves => {
+  const curves = {} as MatchCurves;
+  MATCH_CHANNELS.forEach(channel => {
+    const from = channelQuantiles(source[channel]);
+    const to = channelQuantiles(target[channel]);
+    const points: CurvePoint[] = [{ x: 0, y: 0 }];
+    from.forEach((x, i) => {
+      // Flat stretches of the histogram give repeated quantiles; keep the curve a function
+      if (x <= points[points.length - 1].x || x >= 255) return;
+      points.push({ x, y: Math.round(x + (to[i] - x) * amount) });
+    });
+    points.push({ x: 255, y: 255 });
+    curves[channel] = points;
+  });
+  return curves;
+};
+
+/**
+ * The curve that applies `inner` and then `outer`, as control points: `inner`'s own points
+ * plus wherever `outer`'s points land, thinned out to MAX_CURVE_POINTS.
+ */
+export const chainCurves = (inner: CurvePoint[], outer: CurvePoint[]): CurvePoint[] => {
+  const innerSamples = sampleCurve(inner);
+  const outerSamples = sampleCurve(outer);
+  const xs = new Set(inner.map(p => p.x));
+  outer.forEach(p => {
+    const x = innerSamples.findIndex(v => v >= p.x);
+    if (x !== -1) xs.add(x);
+  });
+  let sorted = [...xs].sort((a, b) => a - b);
+  if (sorted.length > MAX_CURVE_POINTS) {
+    const step = (sorted.length - 1) / (MAX_CURVE_POINTS - 1);
+    sorted = Array.from({ length: MAX_CURVE_POINTS }, (_, i) => sorted[Math.round(i * step)]);
+  }
+  return sorted.map(x => ({ x, y: outerSamples[innerSamples[x]] }));
+};
+
+/** Adds match curves on top of the red, green and blue curves already in `params`. */
+export const applyMatchCurves = (params: EditorParams, match: MatchCurves): EditorParams => ({
+  ...params,
+  curves: {
+    ...params.curves,
+    red: chainCurves(params.curves.red, match.red),
+    green: chainCurves(params.curves.green, match.green),
+    blue: chainCurves(params.curves.blue, match.blue),
+  },
+});
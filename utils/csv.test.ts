@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('start,prompt\na.png,Waves\nb.png,Fog')).toEqual([['start', 'prompt'], ['a.png', 'Waves'], ['b.png', 'Fog']]);
+  });
+
+  it('reads quoted commas, newlines and doubled quotes', () => {
+    expect(parseCsv('"a, b","line 1\nline 2","say ""hi"""')).toEqual([['a, b', 'line 1\nline 2', 'say "hi"']]);
+  });
+
+  it('accepts CRLF line endings and a trailing newline', () => {
+    expect(parseCsv('a,b\r\nc,d\r\n')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('skips blank lines but keeps empty fields', () => {
+    expect(parseCsv('a,,c\n\n , \nd,e,')).toEqual([['a', '', 'c'], ['d', 'e', '']]);
+  });
+
+  it('returns no rows for empty input', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes only the cells that need it', () => {
+    expect(toCsv([['row', 'prompt'], [1, 'Waves, "loud"'], [2, 'two\nlines']])).toBe('row,prompt\r\n1,"Waves, ""loud"""\r\n2,"two\nlines"');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [['a', 'b, c', '"q"'], ['multi\nline', '', 'x']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,37 @@
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes.
+ * Blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(cell => cell.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"') inQuotes = true;
+    else if (char === ',') { row.push(field); field = ''; }
+    else if (char === '\n') endRow();
+    else if (char !== '\r') field += char;
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+const escapeCell = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: (string | number)[][]) =>
+  rows.map(row => row.map(cell => escapeCell(String(cell))).join(',')).join('\r\n');
@@ -0,0 +1,270 @@
+
+import { AspectRatio, CubeLut, EditorParams, FrameCrop, FrameEdit, ResamplingQuality } from '../types';
+import { gradePixels, isNeutralGrade } from './colorGrade';
+import { loadImage } from './media';
+
+// The editor's perspective slider is in px of a frame whose longer side is this long
+const PERSPECTIVE_REFERENCE_SIZE = 1000;
+
+// Pixels the warped image doesn't cover come out black, like the preview's backdrop
+const BACKGROUND = [0, 0, 0, 255];
+
+type Vec3 = [number, number, number];
+type Mat3 = [Vec3, Vec3, Vec3];
+
+const multiply = (a: Mat3, b: Mat3): Mat3 =>
+  a.map(row => [0, 1, 2].map(j => row[0] * b[0][j] + row[1] * b[1][j] + row[2] * b[2][j])) as Mat3;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Same matrices as CSS rotateX/rotateY/rotateZ (y points down, z towards the viewer)
+const rotateX = (a: number): Mat3 => [[1, 0, 0], [0, Math.cos(a), -Math.sin(a)], [0, Math.sin(a), Math.cos(a)]];
+const rotateY = (a: number): Mat3 => [[Math.cos(a), 0, Math.sin(a)], [0, 1, 0], [-Math.sin(a), 0, Math.cos(a)]];
+const rotateZ = (a: number): Mat3 => [[Math.cos(a), -Math.sin(a), 0], [Math.sin(a), Math.cos(a), 0], [0, 0, 1]];
+
+export interface FrameRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/** The bounding box of a `width` x `height` image rotated about Z, rounded to whole pixels. */
+export const getRotatedBounds = (width: number, height: number, rotation: number) => {
+  const angle = toRadians(rotation);
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  return { width: Math.max(1, Math.round(width * cos + height * sin)), height: Math.max(1, Math.round(width * sin + height * cos)) };
+};
+
+/** The largest rectangle of the aspect ratio that fits in `width` x `height`. */
+const fitAspect = (width: number, height: number, aspectRatio: AspectRatio) => {
+  const [wRatio, hRatio] = aspectRatio === '16:9' ? [16, 9] : [9, 16];
+  return width * hRatio > height * wRatio
+    ? { width: (height * wRatio) / hRatio, height }
+    : { width, height: (width * hRatio) / wRatio };
+};
+
+/**
+ * The part of the rotated image that becomes the saved frame. Zoom 1 is the largest rectangle
+ * of the aspect ratio; the center is clamped so the rectangle stays inside the image.
+ */
+export const getCropRect = (bounds: { width: number; height: number }, crop: FrameCrop, aspectRatio: AspectRatio): FrameRect => {
+  const full = fitAspect(bounds.width, bounds.height, aspectRatio);
+  const width = full.width / crop.zoom;
+  const height = full.height / crop.zoom;
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+  return {
+    left: clamp(crop.x * bounds.width - width / 2, bounds.width - width),
+    top: clamp(crop.y * bounds.height - height / 2, bounds.height - height),
+    width,
+    height
+  };
+};
+
+/** Moves the crop's center only as far as needed to keep its rectangle inside the image. */
+export const clampCrop = (bounds: { width: number; height: number }, crop: FrameCrop, aspectRatio: AspectRatio): FrameCrop => {
+  const rect = getCropRect(bounds, crop, aspectRatio);
+  return { x: (rect.left + rect.width / 2) / bounds.width, y: (rect.top + rect.height / 2) / bounds.height, zoom: crop.zoom };
+};
+
+/**
+ * Maps a point on the output frame (relative to its center) back to the source image
+ * (relative to its center). This is the inverse of CSS `perspective(d) rotateX rotateY rotateZ`
+ * about the center: the ray from the eye through the frame point is intersected with the
+ * rotated image plane, which works out to a homography.
+ */
+const inverseHomography = (params: EditorParams, distance: number): Mat3 => {
+  const m = multiply(multiply(rotateX(toRadians(params.rotateX)), rotateY(toRadians(params.rotateY))), rotateZ(toRadians(params.rotation)));
+  const [a, b, n] = [0, 1, 2].map(j => [m[0][j], m[1][j], m[2][j]] as Vec3);
+  return [
+    [a[0] * n[2] - a[2] * n[0], a[1] * n[2] - a[2] * n[1], 0],
+    [b[0] * n[2] - b[2] * n[0], b[1] * n[2] - b[2] * n[1], 0],
+    [-n[0] / distance, -n[1] / distance, n[2]],
+  ];
+};
+
+type Sampler = (src: ImageData, x: number, y: number, out: Uint8ClampedArray, offset: number) => void;
+
+const sampleNearest: Sampler = (src, x, y, out, offset) => {
+  const sx = Math.round(x);
+  const sy = Math.round(y);
+  if (sx < 0 || sy < 0 || sx >= src.width || sy >= src.height) {
+    out.set(BACKGROUND, offset);
+    return;
+  }
+  const i = (sy * src.width + sx) * 4;
+  out[offset] = src.data[i];
+  out[offset + 1] = src.data[i + 1];
+  out[offset + 2] = src.data[i + 2];
+  out[offset + 3] = src.data[i + 3];
+};
+
+/** Weighted sum of the texels from (x0, y0); taps off the image contribute the background color. */
+const accumulate = (src: ImageData, x0: number, y0: number, wx: number[], wy: number[], out: Uint8ClampedArray, offset: number) => {
+  const { width, height, data } = src;
+  let r = 0, g = 0, b = 0, a = 0;
+  for (let j = 0; j < wy.length; j++) {
+    const sy = y0 + j;
+    for (let i = 0; i < wx.length; i++) {
+      const weight = wx[i] * wy[j];
+      if (weight === 0) continue;
+      const sx = x0 + i;
+      if (sx < 0 || sy < 0 || sx >= width || sy >= height) {
+        r += BACKGROUND[0] * weight;
+        g += BACKGROUND[1] * weight;
+        b += BACKGROUND[2] * weight;
+        a += BACKGROUND[3] * weight;
+        continue;
+      }
+      const k = (sy * width + sx) * 4;
+      r += data[k] * weight;
+      g += data[k + 1] * weight;
+      b += data[k + 2] * weight;
+      a += data[k + 3] * weight;
+    }
+  }
+  out[offset] = r;
+  out[offset + 1] = g;
+  out[offset + 2] = b;
+  out[offset + 3] = a;
+};
+
+const sampleBilinear: Sampler = (src, x, y, out, offset) => {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const fx = x - x0;
+  const fy = y - y0;
+  accumulate(src, x0, y0, [1 - fx, fx], [1 - fy, fy], out, offset);
+};
+
+// Catmull-Rom weights for the four taps around a sample at fraction t
+const cubicWeights = (t: number) => [
+  ((-0.5 * t + 1) * t - 0.5) * t,
+  (1.5 * t - 2.5) * t * t + 1,
+  ((-1.5 * t + 2) * t + 0.5) * t,
+  (0.5 * t - 0.5) * t * t,
+];
+
+const sampleBicubic: Sampler = (src, x, y, out, offset) => {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  accumulate(src, x0 - 1, y0 - 1, cubicWeights(x - x0), cubicWeights(y - y0), out, offset);
+};
+
+const SAMPLERS: Record<ResamplingQuality, Sampler> = {
+  nearest: sampleNearest,
+  bilinear: sampleBilinear,
+  bicubic: sampleBicubic,
+};
+
+/** Fills `dst` with the `region` of the rotated image's bounds, whose center is the warp's origin. */
+const warp = (src: ImageData, dst: ImageData, h: Mat3, bounds: { width: number; height: number }, region: FrameRect, quality: ResamplingQuality) => {
+  const sample = SAMPLERS[quality];
+  const originU = region.left - bounds.width / 2;
+  const originV = region.top - bounds.height / 2;
+  // Source pixel centers sit at half-integers
+  const originX = src.width / 2 - 0.5;
+  const originY = src.height / 2 - 0.5;
+
+  for (let v = 0; v < dst.height; v++) {
+    const y = v + 0.5 + originV;
+    for (let u = 0; u < dst.width; u++) {
+      const x = u + 0.5 + originU;
+      const offset = (v * dst.width + u) * 4;
+      const w = h[2][0] * x + h[2][1] * y + h[2][2];
+      if (w <= 0) {
+        // Behind the viewer
+        dst.data.set(BACKGROUND, offset);
+        continue;
+      }
+      const sx = (h[0][0] * x + h[0][1] * y) / w + originX;
+      const sy = (h[1][0] * x + h[1][1] * y) / w + originY;
+      sample(src, sx, sy, dst.data, offset);
+    }
+  }
+};
+
+const drawVignette = (ctx: CanvasRenderingContext2D, frame: FrameRect, vignette: number) => {
+  const centerX = frame.left + frame.width / 2;
+  const centerY = frame.top + frame.height / 2;
+  const gradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, Math.hypot(frame.width / 2, frame.height / 2));
+  const color = vignette > 0 ? '0, 0, 0' : '255, 255, 255';
+  gradient.addColorStop(0.4, `rgba(${color}, 0)`);
+  gradient.addColorStop(1, `rgba(${color}, ${Math.abs(vignette) / 100})`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(frame.left, frame.top, frame.width, frame.height);
+};
+
+export interface FrameRenderOptions {
+  scale?: number; // < 1 renders a smaller proxy of the same frame, for previews
+  quality?: ResamplingQuality; // overrides params.resampling
+  uncropped?: boolean; // render the whole rotated image, with the vignette inside the crop only
+  lut?: CubeLut; // the table for params.lut
+}
+
+/**
+ * Renders a keyframe with the editor's adjustments into `target`: color filters, then the
+ * pixel grade (white balance, levels, curves, LUT), then the rotation, tilt and perspective warp, cropped to `params.crop`, then the vignette over the
+ * finished frame. The preview and the saved frame both come from here, so they only differ
+ * in size. Returns the crop rectangle in `target`'s pixels.
+ */
+export const renderFrame = (target: HTMLCanvasElement, image: HTMLImageElement, params: EditorParams, aspectRatio: AspectRatio, options: FrameRenderOptions = {}): FrameRect => {
+  const scale = options.scale ?? 1;
+  const quality = options.quality ?? params.resampling;
+
+  const source = document.createElement('canvas');
+  source.width = Math.max(1, Math.round(image.width * scale));
+  source.height = Math.max(1, Math.round(image.height * scale));
+  const sourceCtx = source.getContext('2d', { willReadFrequently: true })!;
+  let filters = `brightness(${params.brightness}%) contrast(${params.contrast}%) saturate(${params.saturation}%) hue-rotate(${params.hue}deg)`;
+  if (params.grayscale) filters += ' grayscale(100%)';
+  if (params.sepia) filters += ' sepia(100%)';
+  sourceCtx.filter = filters;
+  sourceCtx.imageSmoothingQuality = 'high';
+  sourceCtx.drawImage(image, 0, 0, source.width, source.height);
+  let pixels: ImageData | null = null;
+  if (!isNeutralGrade(params, options.lut)) {
+    pixels = sourceCtx.getImageData(0, 0, source.width, source.height);
+    gradePixels(pixels, params, options.lut);
+    sourceCtx.putImageData(pixels, 0, 0);
+  }
+
+  const bounds = getRotatedBounds(source.width, source.height, params.rotation);
+  const crop = getCropRect(bounds, params.crop, aspectRatio);
+  const region: FrameRect = options.uncropped
+    ? { left: 0, top: 0, width: bounds.width, height: bounds.height }
+    : { left: Math.round(crop.left), top: Math.round(crop.top), width: Math.max(1, Math.round(crop.width)), height: Math.max(1, Math.round(crop.height)) };
+  target.width = region.width;
+  target.height = region.height;
+  const ctx = target.getContext('2d')!;
+
+  if (params.rotateX === 0 && params.rotateY === 0 && params.rotation % 90 === 0) {
+    // Quarter turns without tilt move whole pixels, so no resampling is needed
+    ctx.save();
+    ctx.imageSmoothingEnabled = false;
+    ctx.translate(bounds.width / 2 - region.left, bounds.height / 2 - region.top);
+    ctx.rotate(toRadians(params.rotation));
+    ctx.drawImage(source, -source.width / 2, -source.height / 2);
+    ctx.restore();
+  } else {
+    // Measured against the uncropped frame, so zooming in doesn't change the perspective
+    const full = fitAspect(bounds.width, bounds.height, aspectRatio);
+    const distance = (params.perspective * Math.max(full.width, full.height)) / PERSPECTIVE_REFERENCE_SIZE;
+    const output = ctx.createImageData(region.width, region.height);
+    warp(pixels ?? sourceCtx.getImageData(0, 0, source.width, source.height), output, inverseHomography(params, distance), bounds, region, quality);
+    ctx.putImageData(output, 0, 0);
+  }
+
+  const frame: FrameRect = options.uncropped ? crop : { left: 0, top: 0, width: region.width, height: region.height };
+  if (params.vignette !== 0) drawVignette(ctx, frame, params.vignette);
+  return frame;
+};
+
+/** Renders a frame's edit from its original at full resolution, as the editor's Save does. */
+export const renderFrameEdit = async (edit: FrameEdit, aspectRatio: AspectRatio): Promise<string> => {
+  const image = await loadImage(edit.original);
+  const canvas = document.createElement('canvas');
+  renderFrame(canvas, image, edit.params, aspectRatio, { lut: edit.params.lut ? edit.luts?.[edit.params.lut.id] : undefined });
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,112 @@
+
+import { AspectRatio, Resolution } from '../types';
+
+export const FRAME_SIZES: Record<`${AspectRatio}-${Resolution}`, [number, number]> = {
+  '16:9-720p': [1280, 720],
+  '16:9-1080p': [1920, 1080],
+  '9:16-720p': [720, 1280],
+  '9:16-1080p': [1080, 1920],
+};
+
+export const getFrameSize = (aspectRatio: AspectRatio, resolution: Resolution) =>
+  FRAME_SIZES[`${aspectRatio}-${resolution}`];
+
+export const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = "anonymous";
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Could not decode the keyframe image."));
+  img.src = src;
+});
+
+/**
+ * Loads a video far enough to know its duration and dimensions. MediaRecorder WebM files
+ * report an infinite duration until the browser has scanned them, so those are seeked past
+ * the end and back first. If the duration is still unknown after that, it stays Infinity.
+ */
+export const loadVideo = (src: string) => new Promise<HTMLVideoElement>((resolve, reject) => {
+  const video = document.createElement('video');
+  video.crossOrigin = "anonymous";
+  video.preload = 'auto';
+  video.playsInline = true;
+  video.onloadeddata = () => {
+    video.onloadeddata = null;
+    if (isFinite(video.duration)) {
+      resolve(video);
+      return;
+    }
+    video.onseeked = () => {
+      if (video.currentTime === 0 || !isFinite(video.duration)) {
+        video.onseeked = null;
+        resolve(video);
+        return;
+      }
+      video.currentTime = 0;
+    };
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+  };
+  video.onerror = () => reject(new Error("Could not decode one of the clips."));
+  video.src = src;
+});
+
+/**
+ * Draws an image or video frame scaled to cover the canvas, optionally zoomed around its center.
+ */
+export const drawCover = (ctx: CanvasRenderingContext2D, source: HTMLImageElement | HTMLVideoElement, zoom: number = 1) => {
+  const { width, height } = ctx.canvas;
+  const sourceWidth = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+  const sourceHeight = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+  if (!sourceWidth || !sourceHeight) return;
+  const scale = Math.max(width / sourceWidth, height / sourceHeight) * zoom;
+  const w = sourceWidth * scale;
+  const h = sourceHeight * scale;
+  ctx.drawImage(source, (width - w) / 2, (height - h) / 2, w, h);
+};
+
+export type RecorderFormat = 'mp4' | 'webm';
+
+/**
+ * Picks the best MediaRecorder MIME type, preferring the requested container when the browser supports it.
+ */
+export const pickRecorderMimeType = (preferred: RecorderFormat = 'webm') => {
+  const webm = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+  const mp4 = ['video/mp4;codecs=avc1,mp4a', 'video/mp4'];
+  const candidates = preferred === 'mp4' ? [...mp4, ...webm] : [...webm, ...mp4];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) || '';
+};
+
+export const fileExtensionFor = (mimeType: string) => mimeType.includes('webm') ? 'webm' : 'mp4';
+
+const IMAGE_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/gif': 'gif' };
+
+export const imageExtensionFor = (mimeType: string) => IMAGE_EXTENSIONS[mimeType] ?? 'png';
+
+export const mimeTypeForImagePath = (path: string) =>
+  Object.keys(IMAGE_EXTENSIONS).find(type => path.toLowerCase().endsWith(`.${IMAGE_EXTENSIONS[type]}`)) ?? 'image/png';
+
+/**
+ * Decodes a base64 data URL into raw bytes.
+ */
+export const dataUrlToBytes = (dataUrl: string) => {
+  const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/);
+  if (!match) throw new Error("Expected a data URL.");
+  const mimeType = match[1] || 'application/octet-stream';
+  if (!match[2]) return { bytes: new TextEncoder().encode(decodeURIComponent(match[3])), mimeType };
+  const binary = atob(match[3]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { bytes, mimeType };
+};
+
+export const bytesToDataUrl = (bytes: Uint8Array, mimeType: string) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+export const readFileAsDataUrl = (file: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error ?? new Error("Could not read the file."));
+  reader.readAsDataURL(file);
+});
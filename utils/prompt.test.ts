@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { PromptSettings } from '../types';
+import { buildEnginePrompt, composeEnginePrompt, FAST_SPEED, getPhrasebook, SLOW_SPEED } from './prompt';
+
+const SLOW = 'The animation should be very slow, deliberate, and serene.';
+const FAST = 'The animation should be fast-paced, high-energy, and dynamic.';
+
+const settings = (overrides: Partial<PromptSettings> = {}): PromptSettings => ({
+  prompt: 'A lighthouse at dusk',
+  isAdvancedMode: false,
+  camAngle: 'wide',
+  motionType: 'pan',
+  atmosphere: [],
+  speed: 1,
+  motionBlur: false,
+  stabilization: false,
+  ...overrides
+});
+
+describe('buildEnginePrompt', () => {
+  it('returns the creative prompt untouched when nothing is added', () => {
+    expect(composeEnginePrompt(settings({ prompt: '  A lighthouse at dusk  ' }))).toBe('A lighthouse at dusk');
+  });
+
+  it('adds the slow instruction at or below the slow threshold', () => {
+    expect(composeEnginePrompt(settings({ speed: SLOW_SPEED }))).toBe(`A lighthouse at dusk. ${SLOW}`);
+    expect(composeEnginePrompt(settings({ speed: 0.5 }))).toBe(`A lighthouse at dusk. ${SLOW}`);
+  });
+
+  it('adds the fast instruction at or above the fast threshold', () => {
+    expect(composeEnginePrompt(settings({ speed: FAST_SPEED }))).toBe(`A lighthouse at dusk. ${FAST}`);
+    expect(composeEnginePrompt(settings({ speed: 2 }))).toBe(`A lighthouse at dusk. ${FAST}`);
+  });
+
+  it('adds no pacing instruction between the thresholds', () => {
+    expect(SLOW_SPEED).toBe(0.6);
+    expect(FAST_SPEED).toBe(1.4);
+    expect(composeEnginePrompt(settings({ speed: 0.61 }))).toBe('A lighthouse at dusk');
+    expect(composeEnginePrompt(settings({ speed: 1.39 }))).toBe('A lighthouse at dusk');
+  });
+
+  it('leaves camera, motion and atmosphere out when advanced mode is off', () => {
+    const { fragments } = buildEnginePrompt(settings({ atmosphere: ['fog'] }));
+    expect(fragments.map(f => f.source)).toEqual(['prompt']);
+  });
+
+  it('keeps the original advanced-mode wording in the standard phrasebook', () => {
+    expect(composeEnginePrompt(settings({ isAdvancedMode: true, atmosphere: ['fog', 'rain'] }))).toBe(
+      'A lighthouse at dusk. Scene captured from a sprawling wide-angle perspective. ' +
+      'The animation uses a Smooth Pan movement style with Ethereal Fog, Heavy Rain atmospheric effects.'
+    );
+    expect(composeEnginePrompt(settings({ isAdvancedMode: true }))).toBe(
+      'A lighthouse at dusk. Scene captured from a sprawling wide-angle perspective. The animation uses a Smooth Pan movement style.'
+    );
+  });
+
+  it('tags each fragment with the setting it came from, in order', () => {
+    const result = buildEnginePrompt(settings({
+      isAdvancedMode: true,
+      atmosphere: ['neon'],
+      speed: 2,
+      tempoBpm: 119.6,
+      motionBlur: true,
+      stabilization: true
+    }));
+    expect(result.fragments.map(f => f.source)).toEqual(['prompt', 'camAngle', 'motionType', 'atmosphere', 'speed', 'tempo', 'motionBlur', 'stabilization']);
+    expect(result.fragments.find(f => f.source === 'tempo')?.text).toBe('Motion pulses at 120 BPM, with camera accents landing on the beat.');
+    expect(result.fragments.find(f => f.source === 'motionBlur')?.text).toBe('Apply realistic cinematic motion blur.');
+    expect(result.fragments.find(f => f.source === 'stabilization')?.text).toBe('Ensure perfectly stabilized, jitter-free camera movement.');
+    expect(result.prompt).toBe(result.fragments.map(f => f.text).join(' '));
+  });
+
+  it('words the fragments from the chosen phrasebook', () => {
+    expect(composeEnginePrompt(settings({ isAdvancedMode: true, atmosphere: ['fog'], speed: 0.5, phrasebook: 'terse' }))).toBe(
+      'A lighthouse at dusk. Wide shot. Smooth pan. Fog. Slow motion.'
+    );
+  });
+
+  it('falls back to the standard phrasebook for an unknown id', () => {
+    expect(getPhrasebook('klingon').id).toBe('standard');
+    expect(getPhrasebook().id).toBe('standard');
+    expect(composeEnginePrompt(settings({ speed: 2, phrasebook: 'klingon' }))).toBe(`A lighthouse at dusk. ${FAST}`);
+  });
+
+  it('uses an unknown option id as its own term', () => {
+    expect(composeEnginePrompt(settings({ isAdvancedMode: true, motionType: 'crane' }))).toContain('uses a crane movement style.');
+  });
+
+  it('terminates the creative prompt only when instructions follow and it lacks punctuation', () => {
+    expect(composeEnginePrompt(settings({ prompt: 'Waves crash!', speed: 2 }))).toBe(`Waves crash! ${FAST}`);
+    expect(composeEnginePrompt(settings({ prompt: 'He said "go."', speed: 2 }))).toBe(`He said "go." ${FAST}`);
+    expect(composeEnginePrompt(settings({ prompt: 'Waves crash', speed: 2 }))).toBe(`Waves crash. ${FAST}`);
+    expect(composeEnginePrompt(settings({ prompt: 'Waves crash' }))).toBe('Waves crash');
+  });
+
+  it('omits the prompt fragment when the creative prompt is blank', () => {
+    const result = buildEnginePrompt(settings({ prompt: '   ', motionBlur: true }));
+    expect(result.fragments.map(f => f.source)).toEqual(['motionBlur']);
+    expect(result.prompt).toBe('Apply realistic cinematic motion blur.');
+  });
+});
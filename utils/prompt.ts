@@ -0,0 +1,44 @@
+import { PROMPT_PHRASEBOOKS } from '../constants';
+import { EnginePrompt, Phrasebook, PromptFragment, PromptSettings } from '../types';
+
+// Speeds at or beyond these thresholds add a pacing instruction
+export const SLOW_SPEED = 0.6;
+export const FAST_SPEED = 1.4;
+
+export const getPhrasebook = (id?: string): Phrasebook =>
+  PROMPT_PHRASEBOOKS.find(p => p.id === id) ?? PROMPT_PHRASEBOOKS[0];
+
+/**
+ * Expands the creative prompt with the speed, camera and finishing instructions sent to Veo,
+ * worded from the chosen phrasebook. Each instruction is returned as a fragment tagged with the
+ * setting it came from; the fragments joined with spaces are exactly `prompt`.
+ */
+export const buildEnginePrompt = (settings: PromptSettings): EnginePrompt => {
+  const { prompt, isAdvancedMode, camAngle, motionType, atmosphere, speed, motionBlur, stabilization, tempoBpm } = settings;
+  const book = getPhrasebook(settings.phrasebook);
+  const standard = PROMPT_PHRASEBOOKS[0];
+  const term = (table: 'camAngles' | 'motions' | 'atmospheres', id: string) => book[table][id] ?? standard[table][id] ?? id;
+
+  const fragments: PromptFragment[] = [];
+  if (isAdvancedMode) {
+    fragments.push({ source: 'camAngle', text: book.camAngle(term('camAngles', camAngle)) });
+    fragments.push({ source: 'motionType', text: book.motionType(term('motions', motionType), atmosphere.length > 0) });
+    if (atmosphere.length > 0) fragments.push({ source: 'atmosphere', text: book.atmosphere(atmosphere.map(a => term('atmospheres', a))) });
+  }
+  if (speed <= SLOW_SPEED) fragments.push({ source: 'speed', text: book.slow });
+  else if (speed >= FAST_SPEED) fragments.push({ source: 'speed', text: book.fast });
+  if (tempoBpm) fragments.push({ source: 'tempo', text: book.tempo(Math.round(tempoBpm)) });
+  if (motionBlur) fragments.push({ source: 'motionBlur', text: book.motionBlur });
+  if (stabilization) fragments.push({ source: 'stabilization', text: book.stabilization });
+
+  const creative = prompt.trim();
+  if (creative) {
+    // Close the creative prompt's last sentence so the instructions don't run into it
+    const closed = fragments.length > 0 && !/[.!?…]["')\]]*$/.test(creative) ? `${creative}.` : creative;
+    fragments.unshift({ source: 'prompt', text: closed });
+  }
+
+  return { prompt: fragments.map(f => f.text).join(' '), fragments };
+};
+
+export const composeEnginePrompt = (settings: PromptSettings): string => buildEnginePrompt(settings).prompt;
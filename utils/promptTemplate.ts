@@ -0,0 +1,37 @@
+
+import { PromptVariable, VariableBinding } from '../types';
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/** Names of the `{{variables}}` in a template, in order of first appearance. */
+export const extractVariableNames = (template: string): string[] =>
+  Array.from(new Set(Array.from(template.matchAll(VARIABLE_PATTERN), m => m[1])));
+
+/** Replaces each bound `{{variable}}`; unbound placeholders are left as written. */
+export const fillTemplate = (template: string, binding: VariableBinding): string =>
+  template.replace(VARIABLE_PATTERN, (match, name: string) => binding[name] ?? match);
+
+/**
+ * The variables used by the template, in template order, carrying over values already entered.
+ * Variables the template no longer mentions are dropped.
+ */
+export const syncVariables = (template: string, variables: PromptVariable[]): PromptVariable[] =>
+  extractVariableNames(template).map(name => variables.find(v => v.name === name) ?? { name, values: [] });
+
+/** Binds each variable to its first value, as used for single renders and the prompt preview. */
+export const defaultBinding = (variables: PromptVariable[]): VariableBinding =>
+  Object.fromEntries(variables.filter(v => v.values.length > 0).map(v => [v.name, v.values[0]]));
+
+export const countCombinations = (variables: PromptVariable[]) =>
+  variables.reduce((total, v) => total * v.values.length, 1);
+
+/** Every combination of variable values, varying the last variable fastest. */
+export const expandMatrix = (variables: PromptVariable[]): VariableBinding[] =>
+  variables.reduce<VariableBinding[]>(
+    (combos, v) => combos.flatMap(combo => v.values.map(value => ({ ...combo, [v.name]: value }))),
+    [{}]
+  );
+
+/** Moves the bound values to the front, so the variables reproduce this binding as their default. */
+export const pinBinding = (variables: PromptVariable[], binding: VariableBinding): PromptVariable[] =>
+  variables.map(v => binding[v.name] === undefined ? v : { ...v, values: [binding[v.name], ...v.values.filter(x => x !== binding[v.name])] });
@@ -0,0 +1,27 @@
+
+/** Collects every schema violation so the user sees all problems at once. */
+export class Validator {
+  errors: string[] = [];
+
+  check(ok: boolean, path: string, expected: string) {
+    if (!ok) this.errors.push(`${path} should be ${expected}`);
+    return ok;
+  }
+
+  string(value: any, path: string) { return this.check(typeof value === 'string', path, 'a string'); }
+  boolean(value: any, path: string) { return this.check(typeof value === 'boolean', path, 'true or false'); }
+  number(value: any, path: string, min = -Infinity, max = Infinity) {
+    return this.check(typeof value === 'number' && isFinite(value) && value >= min && value <= max, path, `a number between ${min} and ${max}`);
+  }
+  oneOf(value: any, path: string, options: readonly string[]) { return this.check(options.includes(value), path, `one of ${options.join(', ')}`); }
+  image(value: any, path: string) {
+    return this.check(value === null || (typeof value === 'string' && value.startsWith('data:image/')), path, 'null or an image data URL');
+  }
+  stringArray(value: any, path: string) { return this.check(Array.isArray(value) && value.every(v => typeof v === 'string'), path, 'a list of strings'); }
+
+  /** The first few problems as one sentence. */
+  summary(limit = 3) {
+    const more = this.errors.length > limit ? ` (and ${this.errors.length - limit} more)` : '';
+    return `${this.errors.slice(0, limit).join('; ')}${more}.`;
+  }
+}
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+// Bundles the `animator` command for Node. Unlike vite.config.ts nothing is inlined from
+// the environment: the CLI reads GEMINI_API_KEY and GENERATION_BACKEND when it runs.
+export default defineConfig({
+  build: {
+    ssr: 'cli/animator.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'animator.js',
+        banner: '#!/usr/bin/env node'
+      }
+    }
+  }
+});
@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // 'gemini' (default) talks to Veo; 'mock' renders locally for offline development and demos
+        'process.env.GENERATION_BACKEND': JSON.stringify(env.GENERATION_BACKEND || 'gemini')
       },
       resolve: {
         alias: {